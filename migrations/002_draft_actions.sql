@@ -0,0 +1,26 @@
+-- 002: append-only log of draft actions, one table per game.
+-- Read back in id order by GET /api/{hsr,zzz}/sessions/:key/timeline.
+
+CREATE TABLE IF NOT EXISTS hsr_draft_actions (
+  id          bigserial PRIMARY KEY,
+  session_key text NOT NULL,
+  op          text NOT NULL,
+  side        text,
+  payload     jsonb NOT NULL DEFAULT '{}'::jsonb,
+  turn_after  integer NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS hsr_draft_actions_session_idx
+  ON hsr_draft_actions (session_key, id);
+
+CREATE TABLE IF NOT EXISTS zzz_draft_actions (
+  id          bigserial PRIMARY KEY,
+  session_key text NOT NULL,
+  op          text NOT NULL,
+  side        text,
+  payload     jsonb NOT NULL DEFAULT '{}'::jsonb,
+  turn_after  integer NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS zzz_draft_actions_session_idx
+  ON zzz_draft_actions (session_key, id);
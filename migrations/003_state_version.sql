@@ -0,0 +1,4 @@
+-- 003: per-session state version for stale-write detection (409 on mismatch).
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS state_version integer NOT NULL DEFAULT 0;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS state_version integer NOT NULL DEFAULT 0;
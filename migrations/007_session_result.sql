@@ -0,0 +1,5 @@
+-- 007: confirmed (or admin-resolved) match result per session.
+-- Score reports and their status live in the session state; this is the final word.
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS result jsonb;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS result jsonb;
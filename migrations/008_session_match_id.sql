@@ -0,0 +1,10 @@
+-- 008: ranked match an HSR session was promoted into (matches.match_id).
+-- Cleared when the match is deleted, so the session can be promoted again.
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS match_id integer;
+CREATE UNIQUE INDEX IF NOT EXISTS hsr_draft_sessions_match_id_idx
+  ON hsr_draft_sessions (match_id) WHERE match_id IS NOT NULL;
+
+-- HSR penalties are whole cycles per cost point over the limit. Sessions
+-- created with the old 2500 default (a ZZZ points figure) get the HSR one.
+UPDATE hsr_draft_sessions SET penalty_per_point = 1 WHERE penalty_per_point = 2500;
@@ -0,0 +1,4 @@
+-- 009: broadcast delay for non-participant stream viewers, in seconds (0 = live).
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS spectator_delay_seconds integer NOT NULL DEFAULT 0;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS spectator_delay_seconds integer NOT NULL DEFAULT 0;
@@ -0,0 +1,31 @@
+-- 011: best-of-N series; each game is an ordinary draft session linked by
+-- series_key / series_game.
+
+CREATE TABLE IF NOT EXISTS draft_series (
+  series_key     text PRIMARY KEY,
+  owner_user_id  text NOT NULL,
+  game           text NOT NULL,
+  best_of        integer NOT NULL,
+  team1          text NOT NULL,
+  team2          text NOT NULL,
+  team1_token    text NOT NULL,
+  team2_token    text NOT NULL,
+  rules          jsonb NOT NULL DEFAULT '{}'::jsonb,
+  session_config jsonb,
+  score_team1    integer NOT NULL DEFAULT 0,
+  score_team2    integer NOT NULL DEFAULT 0,
+  winner         text,
+  is_complete    boolean NOT NULL DEFAULT false,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  completed_at   timestamptz
+);
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS series_key text;
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS series_game integer;
+CREATE INDEX IF NOT EXISTS hsr_draft_sessions_series_idx
+  ON hsr_draft_sessions (series_key, series_game) WHERE series_key IS NOT NULL;
+
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS series_key text;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS series_game integer;
+CREATE INDEX IF NOT EXISTS zzz_draft_sessions_series_idx
+  ON zzz_draft_sessions (series_key, series_game) WHERE series_key IS NOT NULL;
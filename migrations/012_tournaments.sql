@@ -0,0 +1,51 @@
+-- 012: single / double elimination brackets. Matches are played as a single
+-- session (tournament_matches.session_key) or a series (series_key).
+
+CREATE TABLE IF NOT EXISTS tournaments (
+  tournament_key text PRIMARY KEY,
+  owner_user_id  text NOT NULL,
+  name           text NOT NULL,
+  game           text NOT NULL,
+  format         text NOT NULL,
+  best_of        integer NOT NULL DEFAULT 1,
+  session_config jsonb,
+  series_rules   jsonb,
+  status         text NOT NULL DEFAULT 'running',
+  champion_id    text,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  completed_at   timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS tournament_entrants (
+  tournament_key text NOT NULL REFERENCES tournaments (tournament_key) ON DELETE CASCADE,
+  discord_id     text NOT NULL,
+  seed           integer NOT NULL,
+  name           text NOT NULL,
+  elo            integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (tournament_key, discord_id)
+);
+
+CREATE TABLE IF NOT EXISTS tournament_matches (
+  tournament_key text NOT NULL REFERENCES tournaments (tournament_key) ON DELETE CASCADE,
+  match_id       text NOT NULL,
+  bracket        text NOT NULL,
+  round          integer NOT NULL,
+  idx            integer NOT NULL,
+  p1             text,
+  p2             text,
+  winner         text,
+  loser          text,
+  status         text NOT NULL,
+  win_to         jsonb,
+  lose_to        jsonb,
+  session_key    text,
+  series_key     text,
+  PRIMARY KEY (tournament_key, match_id)
+);
+CREATE INDEX IF NOT EXISTS tournament_matches_session_idx
+  ON tournament_matches (session_key) WHERE session_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS tournament_matches_series_idx
+  ON tournament_matches (series_key) WHERE series_key IS NOT NULL;
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS tournament_key text;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS tournament_key text;
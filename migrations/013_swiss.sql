@@ -0,0 +1,42 @@
+-- 013: Swiss-system events. Each pairing is played as one draft session
+-- (swiss_pairings.session_key); a bye is stored with p2 NULL and already done.
+-- The session itself points back at its event through swiss_event_key.
+
+CREATE TABLE IF NOT EXISTS swiss_events (
+  event_key      text PRIMARY KEY,
+  owner_user_id  text NOT NULL,
+  name           text NOT NULL,
+  game           text NOT NULL,
+  rounds         integer NOT NULL,
+  current_round  integer NOT NULL DEFAULT 0,
+  session_config jsonb,
+  status         text NOT NULL DEFAULT 'running',
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  completed_at   timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS swiss_entrants (
+  event_key  text NOT NULL REFERENCES swiss_events (event_key) ON DELETE CASCADE,
+  discord_id text NOT NULL,
+  seed       integer NOT NULL,
+  name       text NOT NULL,
+  elo        integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (event_key, discord_id)
+);
+
+CREATE TABLE IF NOT EXISTS swiss_pairings (
+  event_key   text NOT NULL REFERENCES swiss_events (event_key) ON DELETE CASCADE,
+  round       integer NOT NULL,
+  table_no    integer NOT NULL,
+  p1          text NOT NULL,
+  p2          text,
+  winner      text,
+  status      text NOT NULL,
+  session_key text,
+  PRIMARY KEY (event_key, round, table_no)
+);
+CREATE INDEX IF NOT EXISTS swiss_pairings_session_idx
+  ON swiss_pairings (session_key) WHERE session_key IS NOT NULL;
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS swiss_event_key text;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS swiss_event_key text;
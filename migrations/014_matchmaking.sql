@@ -0,0 +1,5 @@
+-- 014: Sessions opened by the matchmaking queue. They belong to the
+-- MATCHMAKING_OWNER_ID service account and never count as an owner's open draft.
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS matchmaking boolean NOT NULL DEFAULT false;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS matchmaking boolean NOT NULL DEFAULT false;
@@ -0,0 +1,7 @@
+-- 015: Discord accounts bound to a side; a bound side's token only works for that account.
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS blue_user_id text;
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS red_user_id text;
+
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS blue_user_id text;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS red_user_id text;
@@ -0,0 +1,10 @@
+-- 016: named participants per side (with their own tokens) and the per-session
+-- rules for what non-captains may do. Logged actions record who acted.
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS participants jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS participant_rules jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE hsr_draft_actions ADD COLUMN IF NOT EXISTS participant_id text;
+
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS participants jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS participant_rules jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE zzz_draft_actions ADD COLUMN IF NOT EXISTS participant_id text;
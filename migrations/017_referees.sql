@@ -0,0 +1,4 @@
+-- 017: Discord ids allowed to referee a session (array of strings).
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS referees jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS referees jsonb NOT NULL DEFAULT '[]'::jsonb;
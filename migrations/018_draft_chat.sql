@@ -0,0 +1,25 @@
+-- 018: per-session chat, one table per game. Paged newest-first by id.
+
+CREATE TABLE IF NOT EXISTS hsr_draft_chat (
+  id          bigserial PRIMARY KEY,
+  session_key text NOT NULL,
+  role        text NOT NULL,
+  side        text,
+  name        text NOT NULL,
+  body        text NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS hsr_draft_chat_session_idx
+  ON hsr_draft_chat (session_key, id);
+
+CREATE TABLE IF NOT EXISTS zzz_draft_chat (
+  id          bigserial PRIMARY KEY,
+  session_key text NOT NULL,
+  role        text NOT NULL,
+  side        text,
+  name        text NOT NULL,
+  body        text NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS zzz_draft_chat_session_idx
+  ON zzz_draft_chat (session_key, id);
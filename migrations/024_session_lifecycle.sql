@@ -0,0 +1,9 @@
+-- 024: reaper outcome for idle sessions ('abandoned' or 'expired'); NULL while
+-- the session is still usable. The other lifecycle states are derived.
+
+ALTER TABLE hsr_draft_sessions ADD COLUMN IF NOT EXISTS lifecycle text;
+ALTER TABLE zzz_draft_sessions ADD COLUMN IF NOT EXISTS lifecycle text;
+CREATE INDEX IF NOT EXISTS hsr_draft_sessions_reap_idx
+  ON hsr_draft_sessions (last_activity_at) WHERE is_complete IS NOT TRUE AND lifecycle IS NULL;
+CREATE INDEX IF NOT EXISTS zzz_draft_sessions_reap_idx
+  ON zzz_draft_sessions (last_activity_at) WHERE is_complete IS NOT TRUE AND lifecycle IS NULL;
@@ -24,9 +24,13 @@ import cerydraRouter from "./routes/cerydra";
 import insightsRouter from "./routes/insights";
 import zzzRouter from "./routes/zzz";
 import cipherCostRouter from "./routes/ciphercost";
-import zzzSpectatorRoutes from "./routes/zzzSpectator";
-import hsrSpectatorRoutes from "./routes/hsrSpectator";
+import zzzSpectatorRoutes, { handleZzzSocket } from "./routes/zzzSpectator";
+import hsrSpectatorRoutes, { handleHsrSocket } from "./routes/hsrSpectator";
 import zzzBalanceRouter from "./routes/zzz-balance";
+import seriesRouter from "./routes/series";
+import tournamentsRouter from "./routes/tournaments";
+import swissRouter from "./routes/swiss";
+import matchmakingRouter from "./routes/matchmaking";
 
 
 // scoped limiters
@@ -37,6 +41,9 @@ import {
   DRAFT_ROOT_RE,
   SSE_STREAM_RE,
 } from "./middleware/rateLimiters";
+import { rejectUpgrade } from "./utils/draftSocket";
+
+const DRAFT_SOCKET_RE = /^\/api\/(hsr|zzz)\/sessions\/([^/]+)\/ws$/;
 
 dotenv.config();
 
@@ -74,30 +81,33 @@ const globalLimiter = rateLimit({
 
 
 /* ───────── CORS ───────── */
+const allowedHostnames = [
+  'localhost',
+  '127.0.0.1',
+  'haya-pvp.vercel.app',
+];
+
+/** true / false, or null when the origin isn't a URL */
+function isAllowedOrigin(origin: string): boolean | null {
+  try {
+    const hostname = new URL(origin).hostname;
+    return (
+      hostname.endsWith('.cipher.uno') ||
+      hostname === 'cipher.uno' ||
+      allowedHostnames.includes(hostname)
+    );
+  } catch (e) {
+    return null;
+  }
+}
+
 app.use(cors({
   origin: (origin, callback) => {
     if (!origin) return callback(null, true);
 
-    const allowedHostnames = [
-      'localhost',
-      '127.0.0.1',
-      'haya-pvp.vercel.app',
-    ];
-
-    try {
-      const url = new URL(origin);
-      const hostname = url.hostname;
-
-      if (
-        hostname.endsWith('.cipher.uno') ||
-        hostname === 'cipher.uno' ||
-        allowedHostnames.includes(hostname)
-      ) {
-        return callback(null, true);
-      }
-    } catch (e) {
-      return callback(new Error('Invalid origin'));
-    }
+    const allowed = isAllowedOrigin(origin);
+    if (allowed === null) return callback(new Error('Invalid origin'));
+    if (allowed) return callback(null, true);
 
     callback(new Error('Not allowed by CORS'));
   },
@@ -106,7 +116,7 @@ app.use(cors({
 
 /* ───────── Sessions ───────── */
 const PgSession = pgSession(session);
-app.use(session({
+const sessionMiddleware = session({
   name: 'cid',
   store: new PgSession({
     pool,
@@ -124,7 +134,8 @@ app.use(session({
     maxAge: 365 * 24 * 60 * 60 * 1000,
     domain: isProd ? '.cipher.uno' : undefined,
   }
-}));
+});
+app.use(sessionMiddleware);
 
 /* ───────── Security & body parsing ───────── */
 app.use(passport.initialize());
@@ -160,6 +171,11 @@ app.use("/api/zzz/sessions/:key", ownerLimiter);
 app.use("/api/zzz/cost-presets", ownerLimiter);
 app.use("/api/zzz/cost-presets/:id", ownerLimiter);
 
+app.use("/api/series", ownerLimiter);
+app.use("/api/tournaments", ownerLimiter);
+app.use("/api/swiss", ownerLimiter);
+app.use("/api/matchmaking/queue", ownerLimiter);
+
 /* ───────── Routes ───────── */
 app.use(rosterRouter);
 app.use("/api/announcement", announcementRouter);
@@ -177,6 +193,10 @@ app.use(cipherCostRouter);
 app.use(zzzSpectatorRoutes);
 app.use(zzzBalanceRouter);
 app.use(hsrSpectatorRoutes);
+app.use(seriesRouter);
+app.use(tournamentsRouter);
+app.use(swissRouter);
+app.use(matchmakingRouter);
 
 /* ───────── Root & Health ───────── */
 app.get("/", (_req: Request, res: Response) => {
@@ -203,6 +223,40 @@ app.use((_req: Request, res: Response, _next: NextFunction) => {
 });
 
 /* ───────── start ───────── */
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`✅ Backend running on ${isProd ? "https://spajaja.cipher.uno" : `http://localhost:${PORT}`}`);
 });
+
+/* ───────── WebSocket drafting transport ───────── */
+// Upgrades skip the express stack: check the origin ourselves (browsers don't
+// apply CORS to sockets) and run the session + passport middleware so a bound
+// captain's login works like it does over HTTP.
+server.on("upgrade", (req, socket, head) => {
+  socket.on("error", () => socket.destroy());
+  const m = DRAFT_SOCKET_RE.exec((req.url || "").split("?")[0]);
+  if (!m) return void rejectUpgrade(socket, 404, "Not Found");
+  const origin = req.headers.origin;
+  if (origin && !isAllowedOrigin(origin)) return void rejectUpgrade(socket, 403, "Forbidden");
+  let key: string;
+  try {
+    key = decodeURIComponent(m[2]);
+  } catch {
+    return void rejectUpgrade(socket);
+  }
+
+  const res = {} as Response;
+  const next = (step: (req: any, res: any, next: (err?: any) => void) => void, then: () => void) =>
+    step(req, res, (err?: any) => (err ? rejectUpgrade(socket, 500, "Internal Server Error") : then()));
+
+  next(sessionMiddleware, () =>
+    next(passport.initialize(), () =>
+      next(passport.session(), () => {
+        const handle = m[1] === "hsr" ? handleHsrSocket : handleZzzSocket;
+        handle(req, socket, head, key).catch((e) => {
+          console.error("draft socket failed:", e);
+          socket.destroy();
+        });
+      })
+    )
+  );
+});
@@ -55,4 +55,5 @@ export const ownerLimiter = rateLimit({
 
 // Regex helpers to spot drafting routes (and SSE streams) for skip logic
 export const DRAFT_ROOT_RE = /^\/api\/(?:hsr|zzz)\/sessions(?:\/|$)/;
-export const SSE_STREAM_RE = /^\/api\/(?:hsr|zzz)\/sessions\/[^/]+\/stream$/;
+export const SSE_STREAM_RE =
+  /^\/api\/(?:(?:(?:hsr|zzz)\/sessions|series)\/[^/]+|matchmaking)\/stream$/;
@@ -207,6 +207,8 @@ router.post("/api/admin/rollback/:matchId", requireAdmin, async (req, res) => {
     }
 
     await client.query("DELETE FROM matches WHERE match_id = $1", [matchId]);
+    // a promoted draft session may be finalized again after a rollback
+    await client.query("UPDATE hsr_draft_sessions SET match_id = NULL WHERE match_id = $1", [matchId]);
     await client.query("COMMIT");
 
     res.json({ success: true, message: "Match rollback successful." });
@@ -0,0 +1,275 @@
+// routes/matchmaking.ts
+// The queue, the found matches and the notification streams live in this
+// process. With several instances, route /api/matchmaking/* to a single one
+// (the drafts it opens work everywhere).
+import express, { RequestHandler } from "express";
+import { pool } from "../db";
+import { QueueTicket, eloWindow, findMatches } from "../utils/matchmaking";
+import { DraftGame } from "../utils/draftEvents";
+import { checkHsrCreateBody, createHsrSession } from "./hsrSpectator";
+import { checkZzzCreateBody, createZzzSession } from "./zzzSpectator";
+
+const router = express.Router();
+
+/* ───────────────── Auth ───────────────── */
+const requireLogin: RequestHandler = (req, res, next) => {
+  const viewer = (req as any).user as { id?: string } | undefined;
+  if (!viewer?.id) {
+    res.status(401).json({ error: "Not logged in" });
+    return;
+  }
+  next();
+};
+
+const GAMES: ReadonlySet<string> = new Set(["hsr", "zzz"]);
+const MATCH_INTERVAL_MS = 2_000;
+// a found match is kept this long for a player who isn't connected to the stream
+const MATCH_HOLD_MS = 10 * 60_000;
+
+const checkCreateBody = (game: DraftGame, body: any) =>
+  game === "hsr" ? checkHsrCreateBody(body) : checkZzzCreateBody(body);
+const createSession = (game: DraftGame, ...args: Parameters<typeof createHsrSession>) =>
+  game === "hsr" ? createHsrSession(...args) : createZzzSession(...args);
+
+/** Service account that owns matchmade sessions; the queue stays closed without it */
+const matchmakingOwner = () => process.env.MATCHMAKING_OWNER_ID?.trim() || null;
+
+/* ───────────────── Queue state (process-local, see header) ───────────────── */
+type Ticket = QueueTicket & { name: string };
+type FoundMatch = {
+  game: DraftGame;
+  mode: string;
+  key: string;
+  url: string;
+  side: "blue" | "red";
+  token: string;
+  opponent: { discordId: string; name: string; elo: number };
+  at: number;
+};
+
+const queue = new Map<string, Ticket>(); // userId -> ticket
+const found = new Map<string, FoundMatch>(); // userId -> last match, until picked up
+let matcher: NodeJS.Timeout | null = null;
+
+/* ───────────────── SSE notification channel (per user) ───────────────── */
+type Client = import("express").Response;
+const clients = new Map<string, Set<Client>>();
+
+function addClient(userId: string, res: Client) {
+  let set = clients.get(userId);
+  if (!set) clients.set(userId, (set = new Set()));
+  set.add(res);
+  res.on("close", () => {
+    set!.delete(res);
+    if (set!.size === 0) clients.delete(userId);
+  });
+}
+
+function push(userId: string, event: string, payload: any) {
+  const set = clients.get(userId);
+  if (!set) return;
+  const line = `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`;
+  for (const res of set) res.write(line);
+}
+
+function shapeTicket(t: Ticket, now = Date.now()) {
+  return {
+    game: t.game,
+    mode: t.mode,
+    elo: t.elo,
+    joinedAt: new Date(t.joinedAt).toISOString(),
+    waitedSeconds: Math.floor((now - t.joinedAt) / 1000),
+    eloWindow: eloWindow(now - t.joinedAt),
+  };
+}
+
+/* ───────────────── Matcher ───────────────── */
+function ensureMatcher() {
+  if (matcher) return;
+  matcher = setInterval(() => {
+    runMatcher().catch((e) => console.error("matchmaking tick failed:", e));
+  }, MATCH_INTERVAL_MS);
+}
+
+function stopMatcherIfIdle() {
+  if (matcher && queue.size === 0) {
+    clearInterval(matcher);
+    matcher = null;
+  }
+}
+
+let running = false;
+
+async function runMatcher() {
+  if (running) return;
+  running = true;
+  try {
+    const now = Date.now();
+    for (const [userId, m] of found) {
+      if (now - m.at > MATCH_HOLD_MS) found.delete(userId);
+    }
+
+    for (const [a, b] of findMatches([...queue.values()], now)) {
+      // both leave the queue before the async create so a leave/rejoin can't double-book
+      queue.delete(a.userId);
+      queue.delete(b.userId);
+      try {
+        await startMatch(a as Ticket, b as Ticket);
+      } catch (e) {
+        console.error("matchmaking create failed:", e);
+        for (const t of [a, b] as Ticket[]) {
+          queue.set(t.userId, t);
+          push(t.userId, "queued", shapeTicket(t));
+        }
+      }
+    }
+  } finally {
+    running = false;
+    stopMatcherIfIdle();
+  }
+}
+
+/**
+ * Open a session for a matched pair and hand each player their side's token.
+ * Sides are random and bound to the queued accounts. The session is owned by
+ * the MATCHMAKING_OWNER_ID service account, so neither player can edit it.
+ */
+async function startMatch(a: Ticket, b: Ticket) {
+  const [blue, red] = Math.random() < 0.5 ? [a, b] : [b, a];
+  const ownerId = matchmakingOwner();
+  if (!ownerId) throw new Error("MATCHMAKING_OWNER_ID is not set");
+
+  const created = await createSession(
+    blue.game,
+    ownerId,
+    {
+      mode: blue.mode,
+      team1: blue.name,
+      team2: red.name,
+      blueUserId: blue.userId,
+      redUserId: red.userId,
+    },
+    { matchmaking: true }
+  );
+
+  const at = Date.now();
+  const notify = (me: Ticket, other: Ticket, side: "blue" | "red", token: string) => {
+    const m: FoundMatch = {
+      game: me.game,
+      mode: me.mode,
+      key: created.key,
+      url: created.url,
+      side,
+      token,
+      opponent: { discordId: other.userId, name: other.name, elo: other.elo },
+      at,
+    };
+    found.set(me.userId, m);
+    push(me.userId, "matched", m);
+  };
+  notify(blue, red, "blue", created.blueToken);
+  notify(red, blue, "red", created.redToken);
+}
+
+/* ───────────────── JOIN queue ─────────────────
+Body: { game: 'hsr'|'zzz', mode: string }
+*/
+router.post("/api/matchmaking/queue", requireLogin, async (req, res): Promise<void> => {
+  const viewer = (req as any).user as { id: string };
+  const { game, mode } = req.body || {};
+
+  if (!matchmakingOwner()) {
+    return void res.status(503).json({ error: "Matchmaking is not configured" });
+  }
+  if (!GAMES.has(game)) return void res.status(400).json({ error: "Missing or invalid body" });
+  const invalid = checkCreateBody(game, { mode, team1: "A", team2: "B" });
+  if (invalid) return void res.status(400).json({ error: invalid });
+
+  try {
+    const q = await pool.query(
+      `SELECT p.elo, p.nickname, du.global_name, du.username
+         FROM players p
+    LEFT JOIN discord_usernames du ON du.discord_id = p.discord_id
+        WHERE p.discord_id = $1::text`,
+      [viewer.id]
+    );
+    if (!q.rows.length) {
+      return void res.status(403).json({ error: "Only ranked players can queue" });
+    }
+    const p = q.rows[0];
+
+    const existing = queue.get(viewer.id);
+    const ticket: Ticket =
+      existing && existing.game === game && existing.mode === String(mode)
+        ? existing
+        : {
+            userId: viewer.id,
+            game,
+            mode: String(mode),
+            elo: Number(p.elo) || 0,
+            joinedAt: Date.now(),
+            name: p.nickname || p.global_name || p.username || viewer.id,
+          };
+    queue.set(viewer.id, ticket);
+    found.delete(viewer.id);
+    ensureMatcher();
+
+    push(viewer.id, "queued", shapeTicket(ticket));
+    res.json({ queued: true, ...shapeTicket(ticket) });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to join queue" });
+  }
+});
+
+/* ───────────────── LEAVE queue ───────────────── */
+router.delete("/api/matchmaking/queue", requireLogin, (req, res) => {
+  const viewer = (req as any).user as { id: string };
+  const was = queue.delete(viewer.id);
+  stopMatcherIfIdle();
+  if (was) push(viewer.id, "left", {});
+  res.json({ ok: true, wasQueued: was });
+});
+
+/* ───────────────── Queue status (polling fallback) ───────────────── */
+router.get("/api/matchmaking/queue", requireLogin, (req, res) => {
+  const viewer = (req as any).user as { id: string };
+  const t = queue.get(viewer.id);
+  const counts: Record<string, number> = {};
+  for (const x of queue.values()) {
+    const k = `${x.game}:${x.mode}`;
+    counts[k] = (counts[k] || 0) + 1;
+  }
+  res.json({
+    queued: !!t,
+    ticket: t ? shapeTicket(t) : null,
+    match: found.get(viewer.id) ?? null,
+    waiting: counts,
+  });
+});
+
+/* ───────────────── SSE notification stream (self) ─────────────────
+Events: queued, matched { key, url, side, token, opponent }, left
+*/
+router.get("/api/matchmaking/stream", requireLogin, (req, res) => {
+  const viewer = (req as any).user as { id: string };
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  (res as any).flushHeaders?.();
+
+  addClient(viewer.id, res);
+
+  // catch up: a match found while disconnected, or the current ticket
+  const m = found.get(viewer.id);
+  const t = queue.get(viewer.id);
+  if (m) res.write(`event: matched\ndata: ${JSON.stringify(m)}\n\n`);
+  else if (t) res.write(`event: queued\ndata: ${JSON.stringify(shapeTicket(t))}\n\n`);
+
+  const ping = setInterval(() => res.write(": keep-alive\n\n"), 25_000);
+  req.on("close", () => clearInterval(ping));
+});
+
+export default router;
@@ -0,0 +1,340 @@
+// routes/series.ts
+import express, { RequestHandler } from "express";
+import { pool } from "../db";
+import { genKey } from "../utils/genKey";
+import {
+  SeriesGame,
+  SeriesRules,
+  blueTeamForGame,
+  carryoverBans,
+  gameWinner,
+  isValidBestOf,
+  sanitizeSeriesRules,
+  seriesScore,
+} from "../utils/draftSeries";
+import { DraftGame, emitSeriesResult, onDraftResult } from "../utils/draftEvents";
+import { onHubEvent, publishHubEvent, withAdvisoryLock } from "../utils/draftPubSub";
+import { checkHsrCreateBody, createHsrSession } from "./hsrSpectator";
+import { checkZzzCreateBody, createZzzSession } from "./zzzSpectator";
+
+const router = express.Router();
+
+/* ───────────────── Auth ───────────────── */
+const requireLogin: RequestHandler = (req, res, next) => {
+  const viewer = (req as any).user as { id?: string } | undefined;
+  if (!viewer?.id) {
+    res.status(401).json({ error: "Not logged in" });
+    return;
+  }
+  next();
+};
+
+const GAMES: ReadonlySet<string> = new Set(["hsr", "zzz"]);
+const sessionsTable = (game: DraftGame) => `${game}_draft_sessions`;
+
+const checkCreateBody = (game: DraftGame, body: any) =>
+  game === "hsr" ? checkHsrCreateBody(body) : checkZzzCreateBody(body);
+const createSession = (game: DraftGame, ...args: Parameters<typeof createHsrSession>) =>
+  game === "hsr" ? createHsrSession(...args) : createZzzSession(...args);
+
+/* ───────────────── SSE hub ───────────────── */
+type Client = import("express").Response;
+const clients = new Map<string, Set<Client>>();
+
+function addClient(key: string, res: Client) {
+  let set = clients.get(key);
+  if (!set) clients.set(key, (set = new Set()));
+  set.add(res);
+  res.on("close", () => {
+    set!.delete(res);
+    if (set!.size === 0) clients.delete(key);
+  });
+}
+
+/** Push an update here and on every other instance (they reload the series themselves) */
+function pushUpdate(key: string, shaped: any) {
+  pushLocal(key, "update", shaped);
+  void publishHubEvent({ topic: "series", key, event: "update" });
+}
+
+function pushLocal(key: string, event: string, payload: any) {
+  const set = clients.get(key);
+  if (!set) return;
+  const line = `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`;
+  for (const res of set) res.write(line);
+}
+
+onHubEvent("series", async ({ key }) => {
+  if (!clients.has(key)) return;
+  const s = await loadSeries(key);
+  if (s) pushLocal(key, "update", shapeSeries(s));
+});
+
+/* ───────────────── Helpers ───────────────── */
+/** Series row + its games, in play order */
+async function loadSeries(key: string) {
+  const q = await pool.query(
+    `SELECT series_key, owner_user_id, game, best_of, team1, team2,
+            team1_token, team2_token, rules, session_config,
+            winner, is_complete, created_at, completed_at
+       FROM draft_series
+      WHERE series_key = $1::text`,
+    [key]
+  );
+  if (!q.rows.length) return null;
+  const row = q.rows[0];
+  const game = row.game as DraftGame;
+  const rules = sanitizeSeriesRules(row.rules);
+
+  const g = await pool.query(
+    `SELECT session_key, series_game, team1, team2, state, result, is_complete
+       FROM ${sessionsTable(game)}
+      WHERE series_key = $1::text
+      ORDER BY series_game ASC`,
+    [key]
+  );
+  const games: SeriesGame[] = g.rows.map((r: any) => ({
+    game: Number(r.series_game),
+    sessionKey: r.session_key,
+    blueTeam: blueTeamForGame(rules, Number(r.series_game)),
+    state: r.state,
+    result: r.result ?? null,
+  }));
+
+  return { row, game, rules, games };
+}
+
+type LoadedSeries = NonNullable<Awaited<ReturnType<typeof loadSeries>>>;
+
+/** Public summary: score, winner, games and the carry-over bans for the next game */
+function shapeSeries({ row, game, rules, games }: LoadedSeries) {
+  const { score, winner, need } = seriesScore(Number(row.best_of), games);
+  const base = process.env.PUBLIC_BASE_URL || "https://cipher.uno";
+
+  return {
+    key: row.series_key,
+    game,
+    bestOf: Number(row.best_of),
+    winsNeeded: need,
+    team1: row.team1,
+    team2: row.team2,
+    rules,
+    score,
+    winner,
+    isComplete: !!winner,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+    games: games.map((g) => ({
+      game: g.game,
+      sessionKey: g.sessionKey,
+      url: `${base}/${game}/s/${g.sessionKey}`,
+      blueTeam: g.blueTeam,
+      winner: gameWinner(g),
+      result: g.result,
+    })),
+    carryoverBans: carryoverBans(rules, games),
+  };
+}
+
+/** Session body for game `n`: the series config, teams on their sides, carry-over bans */
+function nextGameBody(s: LoadedSeries, n: number) {
+  const blue = blueTeamForGame(s.rules, n);
+  const red = blue === "team1" ? "team2" : "team1";
+  const bans = carryoverBans(s.rules, s.games);
+  const config = s.row.session_config || {};
+
+  return {
+    body: {
+      ...config,
+      team1: s.row[blue],
+      team2: s.row[red],
+    },
+    blueToken: s.row[`${blue}_token`] as string,
+    redToken: s.row[`${red}_token`] as string,
+    sideBans: { B: bans[blue], R: bans[red] },
+  };
+}
+
+/**
+ * A linked game finished: store the score, then either close the series or
+ * open the next game right away (captains keep their series tokens). One
+ * advance per series at a time, whichever instance saw the result.
+ */
+async function advanceSeries(key: string) {
+  await withAdvisoryLock(`series:advance:${key}`, () => advanceSeriesOnce(key));
+}
+
+async function advanceSeriesOnce(key: string) {
+  const s = await loadSeries(key);
+  if (!s || s.row.is_complete === true) return;
+
+  const { score, winner } = seriesScore(Number(s.row.best_of), s.games);
+  await pool.query(
+    `UPDATE draft_series
+        SET score_team1 = $2::int,
+            score_team2 = $3::int,
+            winner = $4::text,
+            is_complete = ($4::text IS NOT NULL),
+            completed_at = CASE WHEN $4::text IS NOT NULL THEN now() ELSE completed_at END
+      WHERE series_key = $1::text`,
+    [key, score.team1, score.team2, winner]
+  );
+
+  const last = s.games[s.games.length - 1];
+  if (!winner && last?.result) {
+    const n = last.game + 1;
+    const { body, blueToken, redToken, sideBans } = nextGameBody(s, n);
+    await createSession(s.game, s.row.owner_user_id, body, {
+      seriesKey: key,
+      seriesGame: n,
+      blueToken,
+      redToken,
+      sideBans,
+    });
+  }
+
+  const fresh = await loadSeries(key);
+  if (fresh) pushUpdate(key, shapeSeries(fresh));
+  if (winner) emitSeriesResult({ key, winner });
+}
+
+onDraftResult(async ({ game, key }) => {
+  const q = await pool.query(
+    `SELECT series_key FROM ${sessionsTable(game)} WHERE session_key = $1::text`,
+    [key]
+  );
+  const seriesKey = q.rows[0]?.series_key;
+  if (seriesKey) await advanceSeries(seriesKey);
+});
+
+/* ───────────────── Series creation (shared) ───────────────── */
+export type SeriesInput = {
+  game: DraftGame;
+  bestOf: number;
+  team1: string;
+  team2: string;
+  rules?: any;
+  session?: any;
+};
+
+/** null when the input is usable, otherwise the 400 message */
+export function checkSeriesInput(input: any): string | null {
+  const { game, bestOf, team1, team2, session } = input || {};
+  if (!GAMES.has(game) || !isValidBestOf(Number(bestOf))) return "Missing or invalid body";
+  if (!team1 || !team2 || team1 === team2) return "Two different team names are required";
+  return checkCreateBody(game, { ...sessionConfig(session), team1, team2 });
+}
+
+function sessionConfig(session: any) {
+  const config = session && typeof session === "object" ? { ...session } : {};
+  delete config.team1;
+  delete config.team2;
+  return config;
+}
+
+/** Insert a series from checked input and open its first game */
+export async function createSeries(ownerId: string, input: SeriesInput) {
+  const { game, bestOf, team1, team2 } = input;
+  const key = genKey(16);
+  const team1Token = genKey(20);
+  const team2Token = genKey(20);
+  const seriesRules: SeriesRules = sanitizeSeriesRules(input.rules);
+
+  await pool.query(
+    `INSERT INTO draft_series
+      (series_key, owner_user_id, game, best_of, team1, team2,
+       team1_token, team2_token, rules, session_config)
+     VALUES ($1::text, $2::text, $3::text, $4::int, $5::text, $6::text,
+             $7::text, $8::text, $9::jsonb, $10::jsonb)`,
+    [
+      key,
+      ownerId,
+      game,
+      Number(bestOf),
+      team1,
+      team2,
+      team1Token,
+      team2Token,
+      JSON.stringify(seriesRules),
+      JSON.stringify(sessionConfig(input.session)),
+    ]
+  );
+
+  const s = (await loadSeries(key))!;
+  const { body, blueToken, redToken, sideBans } = nextGameBody(s, 1);
+  const first = await createSession(game, ownerId, body, {
+    seriesKey: key,
+    seriesGame: 1,
+    blueToken,
+    redToken,
+    sideBans,
+  });
+
+  return { key, team1Token, team2Token, firstGame: first };
+}
+
+/* ───────────────── CREATE series ─────────────────
+Body: {
+  game: 'hsr'|'zzz',
+  bestOf: 1|3|5|7|9,
+  team1: string, team2: string,
+  rules?: { pickCarryover?: 'none'|'winner'|'all', swapSides?: boolean },
+  session: { mode, featured?, costProfileId?, costLimit?, penaltyPerPoint?,
+             timerEnabled?, reserveSeconds?, timeoutPolicy?, blindBans?, ... }
+}
+*/
+router.post("/api/series", requireLogin, async (req, res): Promise<void> => {
+  const viewer = (req as any).user as { id: string };
+
+  const invalid = checkSeriesInput(req.body);
+  if (invalid) {
+    res.status(400).json({ error: invalid });
+    return;
+  }
+
+  try {
+    res.json(await createSeries(viewer.id, req.body));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to create series" });
+  }
+});
+
+/* ───────────────── READ series summary (public) ───────────────── */
+router.get("/api/series/:key", async (req, res): Promise<void> => {
+  const { key } = req.params as { key: string };
+  try {
+    const s = await loadSeries(key);
+    if (!s) return void res.status(404).json({ error: "Series not found" });
+    res.json(shapeSeries(s));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to load series" });
+  }
+});
+
+/* ───────────────── SSE stream (public) ───────────────── */
+router.get("/api/series/:key/stream", async (req, res) => {
+  const { key } = req.params as { key: string };
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  (res as any).flushHeaders?.();
+
+  const s = await loadSeries(key);
+  if (!s) {
+    res.write("event: not_found\ndata: {}\n\n");
+    res.end();
+    return;
+  }
+
+  addClient(key, res);
+  res.write(`event: snapshot\ndata: ${JSON.stringify(shapeSeries(s))}\n\n`);
+
+  const ping = setInterval(() => res.write(": keep-alive\n\n"), 25_000);
+  req.on("close", () => clearInterval(ping));
+});
+
+export default router;
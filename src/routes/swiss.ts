@@ -0,0 +1,483 @@
+// routes/swiss.ts
+import express, { RequestHandler } from "express";
+import { pool } from "../db";
+import { genKey } from "../utils/genKey";
+import {
+  SwissResult,
+  defaultSwissRounds,
+  pairSwissRound,
+  swissStandings,
+} from "../utils/swiss";
+import { DraftGame, onDraftResult } from "../utils/draftEvents";
+import { withAdvisoryLock } from "../utils/draftPubSub";
+import { checkHsrCreateBody, createHsrSession } from "./hsrSpectator";
+import { checkZzzCreateBody, createZzzSession } from "./zzzSpectator";
+
+const router = express.Router();
+
+/* ───────────────── Auth ───────────────── */
+const requireLogin: RequestHandler = (req, res, next) => {
+  const viewer = (req as any).user as { id?: string } | undefined;
+  if (!viewer?.id) {
+    res.status(401).json({ error: "Not logged in" });
+    return;
+  }
+  next();
+};
+
+const GAMES: ReadonlySet<string> = new Set(["hsr", "zzz"]);
+const MIN_ENTRANTS = 2;
+const MAX_ENTRANTS = 128;
+const MAX_ROUNDS = 15;
+
+const sessionsTable = (game: DraftGame) => `${game}_draft_sessions`;
+
+const checkCreateBody = (game: DraftGame, body: any) =>
+  game === "hsr" ? checkHsrCreateBody(body) : checkZzzCreateBody(body);
+const createSession = (game: DraftGame, ...args: Parameters<typeof createHsrSession>) =>
+  game === "hsr" ? createHsrSession(...args) : createZzzSession(...args);
+
+/* ───────────────── Helpers ───────────────── */
+async function loadSwiss(key: string) {
+  const q = await pool.query(
+    `SELECT event_key, owner_user_id, name, game, rounds, current_round,
+            session_config, status, created_at, completed_at
+       FROM swiss_events
+      WHERE event_key = $1::text`,
+    [key]
+  );
+  if (!q.rows.length) return null;
+
+  const e = await pool.query(
+    `SELECT discord_id, seed, name, elo
+       FROM swiss_entrants
+      WHERE event_key = $1::text
+      ORDER BY seed ASC`,
+    [key]
+  );
+  const p = await pool.query(
+    `SELECT round, table_no, p1, p2, winner, status, session_key
+       FROM swiss_pairings
+      WHERE event_key = $1::text
+      ORDER BY round ASC, table_no ASC`,
+    [key]
+  );
+
+  const entrants = e.rows.map((r: any) => ({
+    discordId: r.discord_id as string,
+    seed: Number(r.seed),
+    name: r.name as string,
+    elo: r.elo == null ? null : Number(r.elo),
+  }));
+  const pairings = p.rows.map((r: any) => ({
+    round: Number(r.round),
+    table: Number(r.table_no),
+    p1: r.p1 as string,
+    p2: (r.p2 ?? null) as string | null,
+    winner: (r.winner ?? null) as string | null,
+    status: r.status as "live" | "done",
+    sessionKey: (r.session_key ?? null) as string | null,
+  }));
+
+  return { row: q.rows[0], entrants, pairings };
+}
+
+type LoadedSwiss = NonNullable<Awaited<ReturnType<typeof loadSwiss>>>;
+
+function standingsOf({ entrants, pairings }: LoadedSwiss) {
+  const results: SwissResult[] = pairings.map((p) => ({
+    round: p.round,
+    p1: p.p1,
+    p2: p.p2,
+    winner: p.winner,
+    done: p.status === "done",
+  }));
+  return swissStandings(
+    entrants.map((e) => e.discordId),
+    results
+  );
+}
+
+function shapeSwiss(s: LoadedSwiss) {
+  const { row, entrants, pairings } = s;
+  const base = process.env.PUBLIC_BASE_URL || "https://cipher.uno";
+  const game = row.game as DraftGame;
+  const nameOf = (id: string | null) =>
+    id == null ? null : entrants.find((e) => e.discordId === id)?.name ?? id;
+
+  const rounds: Record<number, any[]> = {};
+  for (const p of pairings) {
+    (rounds[p.round] ||= []).push({
+      table: p.table,
+      p1: { discordId: p.p1, name: nameOf(p.p1) },
+      p2: p.p2 ? { discordId: p.p2, name: nameOf(p.p2) } : null,
+      bye: p.p2 == null,
+      winner: p.winner,
+      status: p.status,
+      sessionKey: p.sessionKey,
+      sessionUrl: p.sessionKey ? `${base}/${game}/s/${p.sessionKey}` : null,
+    });
+  }
+
+  return {
+    key: row.event_key,
+    name: row.name,
+    game,
+    rounds: Number(row.rounds),
+    currentRound: Number(row.current_round),
+    status: row.status,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+    standings: standingsOf(s).map((st, i) => ({
+      rank: i + 1,
+      ...st,
+      name: nameOf(st.discordId),
+    })),
+    pairings: Object.entries(rounds).map(([round, tables]) => ({ round: Number(round), tables })),
+  };
+}
+
+/** Close the event once the last round has no open tables */
+async function maybeComplete(key: string) {
+  await pool.query(
+    `UPDATE swiss_events e
+        SET status = 'complete', completed_at = now()
+      WHERE e.event_key = $1::text
+        AND e.status = 'running'
+        AND e.current_round >= e.rounds
+        AND NOT EXISTS (
+          SELECT 1 FROM swiss_pairings p
+           WHERE p.event_key = e.event_key AND p.status <> 'done'
+        )`,
+    [key]
+  );
+}
+
+/** Store a table result; false when the table is unknown or already decided */
+async function recordSwissResult(
+  key: string,
+  round: number,
+  table: number,
+  winner: string | null
+): Promise<boolean> {
+  const q = await pool.query(
+    `UPDATE swiss_pairings
+        SET winner = $4::text, status = 'done'
+      WHERE event_key = $1::text AND round = $2::int AND table_no = $3::int
+        AND status <> 'done'
+        AND p2 IS NOT NULL
+        AND ($4::text IS NULL OR $4::text IN (p1, p2))
+      RETURNING 1`,
+    [key, round, table, winner]
+  );
+  if (!q.rowCount) return false;
+  await maybeComplete(key);
+  return true;
+}
+
+// a drafted table reports itself: blue is p1, red is p2, no winner is a draw
+onDraftResult(async ({ game, key }) => {
+  const q = await pool.query(
+    `SELECT p.event_key, p.round, p.table_no, p.p1, p.p2, s.result
+       FROM swiss_pairings p
+       JOIN ${sessionsTable(game)} s ON s.session_key = p.session_key
+      WHERE p.session_key = $1::text`,
+    [key]
+  );
+  const r = q.rows[0];
+  if (!r) return;
+  const side = r.result?.winner;
+  const winner = side === "B" ? r.p1 : side === "R" ? r.p2 : null;
+  await recordSwissResult(r.event_key, Number(r.round), Number(r.table_no), winner);
+});
+
+/* ───────────────── CREATE event ─────────────────
+Body: {
+  name: string,
+  game: 'hsr'|'zzz',
+  rounds?: number,               // default ceil(log2(entrants))
+  entrants: string[],            // discord ids of known players
+  session?: { mode, costLimit?, featured?, ... }  // omit to pair without drafts
+}
+*/
+router.post("/api/swiss", requireLogin, async (req, res): Promise<void> => {
+  const viewer = (req as any).user as { id: string };
+  const { name, game, entrants, session } = req.body || {};
+
+  if (typeof name !== "string" || !name.trim() || name.length > 80 || !GAMES.has(game)) {
+    return void res.status(400).json({ error: "Missing or invalid body" });
+  }
+  const ids = Array.isArray(entrants) ? [...new Set(entrants.map(String))] : [];
+  if (ids.length < MIN_ENTRANTS || ids.length > MAX_ENTRANTS) {
+    return void res
+      .status(400)
+      .json({ error: `Between ${MIN_ENTRANTS} and ${MAX_ENTRANTS} entrants are required` });
+  }
+  const rounds = req.body?.rounds == null ? defaultSwissRounds(ids.length) : Number(req.body.rounds);
+  if (!Number.isInteger(rounds) || rounds < 1 || rounds > Math.min(MAX_ROUNDS, ids.length - 1 || 1)) {
+    return void res.status(400).json({ error: "Invalid round count" });
+  }
+  if (session != null) {
+    const invalid = checkCreateBody(game, { ...session, team1: "A", team2: "B" });
+    if (invalid) return void res.status(400).json({ error: invalid });
+  }
+
+  try {
+    const { rows: known } = await pool.query(
+      `SELECT x.id AS discord_id, p.elo, p.nickname, du.global_name, du.username
+         FROM unnest($1::text[]) AS x(id)
+    LEFT JOIN players p ON p.discord_id = x.id
+    LEFT JOIN discord_usernames du ON du.discord_id = x.id
+        WHERE p.discord_id IS NOT NULL OR du.discord_id IS NOT NULL`,
+      [ids]
+    );
+    if (known.length !== ids.length) {
+      return void res.status(400).json({ error: "Unknown player" });
+    }
+
+    // initial order (and final tiebreak) is current ELO
+    const seeded = known
+      .map((r: any) => ({ ...r, elo: r.elo == null ? null : Number(r.elo) }))
+      .sort(
+        (a: any, b: any) =>
+          (b.elo ?? -Infinity) - (a.elo ?? -Infinity) ||
+          ids.indexOf(a.discord_id) - ids.indexOf(b.discord_id)
+      );
+
+    const key = genKey(12);
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `INSERT INTO swiss_events
+          (event_key, owner_user_id, name, game, rounds, current_round, session_config, status)
+         VALUES ($1::text, $2::text, $3::text, $4::text, $5::int, 0, $6::jsonb, 'running')`,
+        [key, viewer.id, name.trim(), game, rounds, session == null ? null : JSON.stringify(session)]
+      );
+      for (let i = 0; i < seeded.length; i++) {
+        const r = seeded[i];
+        await client.query(
+          `INSERT INTO swiss_entrants (event_key, discord_id, seed, name, elo)
+           VALUES ($1::text, $2::text, $3::int, $4::text, $5::int)`,
+          [key, r.discord_id, i + 1, r.nickname || r.global_name || r.username || r.discord_id, r.elo]
+        );
+      }
+      await client.query("COMMIT");
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+
+    res.json(shapeSwiss((await loadSwiss(key))!));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to create event" });
+  }
+});
+
+/* ───────────────── LIST events (public) ───────────────── */
+router.get("/api/swiss", async (req, res): Promise<void> => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+  try {
+    const q = await pool.query(
+      `SELECT e.event_key, e.name, e.game, e.rounds, e.current_round, e.status,
+              e.created_at, e.completed_at,
+              (SELECT COUNT(*) FROM swiss_entrants x
+                WHERE x.event_key = e.event_key)::int AS entrant_count
+         FROM swiss_events e
+        ORDER BY e.created_at DESC
+        LIMIT $1::int`,
+      [limit]
+    );
+    res.json({
+      data: q.rows.map((r: any) => ({
+        key: r.event_key,
+        name: r.name,
+        game: r.game,
+        rounds: Number(r.rounds),
+        currentRound: Number(r.current_round),
+        status: r.status,
+        entrantCount: r.entrant_count,
+        createdAt: r.created_at,
+        completedAt: r.completed_at,
+      })),
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to load events" });
+  }
+});
+
+/* ───────────────── READ standings + pairings (public) ───────────────── */
+router.get("/api/swiss/:key", async (req, res): Promise<void> => {
+  const { key } = req.params as { key: string };
+  try {
+    const s = await loadSwiss(key);
+    if (!s) return void res.status(404).json({ error: "Event not found" });
+    res.json(shapeSwiss(s));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to load event" });
+  }
+});
+
+/* ───────────────── PAIR next round (owner) ─────────────────
+Every table of the current round must be decided first. Tables get an
+HSR / ZZZ session from the event's preset when one was given; the owner
+hands out their tokens (GET /api/swiss/:key/tokens).
+*/
+router.post("/api/swiss/:key/rounds", requireLogin, async (req, res): Promise<void> => {
+  const viewer = (req as any).user as { id: string };
+  const { key } = req.params as { key: string };
+
+  try {
+    // one pairing per event at a time, across instances
+    await withAdvisoryLock(`swiss:pair:${key}`, async () => {
+      const s = await loadSwiss(key);
+      if (!s) return void res.status(404).json({ error: "Event not found" });
+      if (s.row.owner_user_id !== viewer.id) {
+        return void res.status(403).json({ error: "Not your event" });
+      }
+      const current = Number(s.row.current_round);
+      if (s.row.status !== "running" || current >= Number(s.row.rounds)) {
+        return void res.status(409).json({ error: "All rounds have been played" });
+      }
+      if (s.pairings.some((p) => p.status !== "done")) {
+        return void res.status(409).json({ error: "Current round is not finished" });
+      }
+
+      const round = current + 1;
+      const next = pairSwissRound(standingsOf(s));
+      const game = s.row.game as DraftGame;
+      const nameOf = (id: string) => s.entrants.find((e) => e.discordId === id)?.name ?? id;
+
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        for (let i = 0; i < next.length; i++) {
+          const { p1, p2 } = next[i];
+          await client.query(
+            `INSERT INTO swiss_pairings (event_key, round, table_no, p1, p2, winner, status)
+             VALUES ($1::text, $2::int, $3::int, $4::text, $5::text, $6::text, $7::text)`,
+            [key, round, i + 1, p1, p2, p2 == null ? p1 : null, p2 == null ? "done" : "live"]
+          );
+        }
+        await client.query(
+          `UPDATE swiss_events SET current_round = $2::int WHERE event_key = $1::text`,
+          [key, round]
+        );
+        await client.query("COMMIT");
+      } catch (e) {
+        await client.query("ROLLBACK");
+        throw e;
+      } finally {
+        client.release();
+      }
+
+      if (s.row.session_config) {
+        for (let i = 0; i < next.length; i++) {
+          const { p1, p2 } = next[i];
+          if (p2 == null) continue;
+          const created = await createSession(
+            game,
+            s.row.owner_user_id,
+            { ...s.row.session_config, team1: nameOf(p1), team2: nameOf(p2) },
+            { swissEventKey: key }
+          );
+          await pool.query(
+            `UPDATE swiss_pairings SET session_key = $4::text
+              WHERE event_key = $1::text AND round = $2::int AND table_no = $3::int`,
+            [key, round, i + 1, created.key]
+          );
+        }
+      }
+
+      await maybeComplete(key);
+      res.json(shapeSwiss((await loadSwiss(key))!));
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to pair round" });
+  }
+});
+
+/* ───────────────── Captain tokens of live tables (owner) ─────────────────
+Table drafts are owned by the organizer, who hands each player their side.
+p1 is blue.
+*/
+router.get("/api/swiss/:key/tokens", requireLogin, async (req, res): Promise<void> => {
+  const viewer = (req as any).user as { id: string };
+  const { key } = req.params as { key: string };
+
+  try {
+    const e = await pool.query(
+      `SELECT owner_user_id, game FROM swiss_events WHERE event_key = $1::text`,
+      [key]
+    );
+    if (!e.rows.length) return void res.status(404).json({ error: "Event not found" });
+    if (e.rows[0].owner_user_id !== viewer.id) {
+      return void res.status(403).json({ error: "Not your event" });
+    }
+    const game = e.rows[0].game as DraftGame;
+
+    const { rows } = await pool.query(
+      `SELECT p.round, p.table_no, p.p1, p.p2, p.session_key, s.blue_token, s.red_token
+         FROM swiss_pairings p
+         JOIN ${sessionsTable(game)} s ON s.session_key = p.session_key
+        WHERE p.event_key = $1::text
+          AND p.status <> 'done'
+        ORDER BY p.round ASC, p.table_no ASC`,
+      [key]
+    );
+    res.json({
+      tables: rows.map((r: any) => ({
+        round: Number(r.round),
+        table: Number(r.table_no),
+        sessionKey: r.session_key,
+        p1: { discordId: r.p1, token: r.blue_token },
+        p2: { discordId: r.p2, token: r.red_token },
+      })),
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to load tokens" });
+  }
+});
+
+/* ───────────────── Owner override: table result ─────────────────
+Body: { winner: discordId | null }   // null = draw
+*/
+router.post(
+  "/api/swiss/:key/rounds/:round/tables/:table/result",
+  requireLogin,
+  async (req, res): Promise<void> => {
+    const viewer = (req as any).user as { id: string };
+    const { key } = req.params as { key: string };
+    const round = Number(req.params.round);
+    const table = Number(req.params.table);
+    const winner = req.body?.winner == null ? null : String(req.body.winner);
+
+    try {
+      const q = await pool.query(
+        `SELECT owner_user_id FROM swiss_events WHERE event_key = $1::text`,
+        [key]
+      );
+      if (!q.rows.length) return void res.status(404).json({ error: "Event not found" });
+      if (q.rows[0].owner_user_id !== viewer.id) {
+        return void res.status(403).json({ error: "Not your event" });
+      }
+
+      const ok = await recordSwissResult(key, round, table, winner);
+      if (!ok) return void res.status(409).json({ error: "Table not found or already decided" });
+
+      res.json(shapeSwiss((await loadSwiss(key))!));
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: "Failed to record result" });
+    }
+  }
+);
+
+export default router;
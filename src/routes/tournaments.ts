@@ -0,0 +1,518 @@
+// routes/tournaments.ts
+import express, { RequestHandler } from "express";
+import { pool } from "../db";
+import { genKey } from "../utils/genKey";
+import {
+  BYE,
+  BracketFormat,
+  BracketMatch,
+  buildBracket,
+  champion,
+  recordWinner,
+} from "../utils/bracket";
+import { isValidBestOf } from "../utils/draftSeries";
+import { DraftGame, onDraftResult, onSeriesResult } from "../utils/draftEvents";
+import { withAdvisoryLock } from "../utils/draftPubSub";
+import { checkHsrCreateBody, createHsrSession } from "./hsrSpectator";
+import { checkZzzCreateBody, createZzzSession } from "./zzzSpectator";
+import { checkSeriesInput, createSeries } from "./series";
+
+const router = express.Router();
+
+/* ───────────────── Auth ───────────────── */
+const requireLogin: RequestHandler = (req, res, next) => {
+  const viewer = (req as any).user as { id?: string } | undefined;
+  if (!viewer?.id) {
+    res.status(401).json({ error: "Not logged in" });
+    return;
+  }
+  next();
+};
+
+const GAMES: ReadonlySet<string> = new Set(["hsr", "zzz"]);
+const FORMATS: ReadonlySet<string> = new Set(["single", "double"]);
+const MIN_ENTRANTS = 2;
+const MAX_ENTRANTS = 64;
+
+const sessionsTable = (game: DraftGame) => `${game}_draft_sessions`;
+
+const checkCreateBody = (game: DraftGame, body: any) =>
+  game === "hsr" ? checkHsrCreateBody(body) : checkZzzCreateBody(body);
+const createSession = (game: DraftGame, ...args: Parameters<typeof createHsrSession>) =>
+  game === "hsr" ? createHsrSession(...args) : createZzzSession(...args);
+
+/* ───────────────── Helpers ───────────────── */
+type Entrant = { discordId: string; seed: number; name: string; elo: number | null };
+
+function shapeMatchRow(r: any): BracketMatch {
+  return {
+    id: r.match_id,
+    bracket: r.bracket,
+    round: Number(r.round),
+    index: Number(r.idx),
+    p1: r.p1 ?? null,
+    p2: r.p2 ?? null,
+    winner: r.winner ?? null,
+    loser: r.loser ?? null,
+    status: r.status,
+    winTo: r.win_to ?? null,
+    loseTo: r.lose_to ?? null,
+    sessionKey: r.session_key ?? null,
+    seriesKey: r.series_key ?? null,
+  };
+}
+
+async function loadTournament(key: string) {
+  const q = await pool.query(
+    `SELECT tournament_key, owner_user_id, name, game, format, best_of,
+            session_config, series_rules, status, champion_id, created_at, completed_at
+       FROM tournaments
+      WHERE tournament_key = $1::text`,
+    [key]
+  );
+  if (!q.rows.length) return null;
+
+  const e = await pool.query(
+    `SELECT discord_id, seed, name, elo
+       FROM tournament_entrants
+      WHERE tournament_key = $1::text
+      ORDER BY seed ASC`,
+    [key]
+  );
+  const m = await pool.query(
+    `SELECT match_id, bracket, round, idx, p1, p2, winner, loser, status,
+            win_to, lose_to, session_key, series_key
+       FROM tournament_matches
+      WHERE tournament_key = $1::text
+      ORDER BY bracket DESC, round ASC, idx ASC`,
+    [key]
+  );
+
+  const entrants: Entrant[] = e.rows.map((r: any) => ({
+    discordId: r.discord_id,
+    seed: Number(r.seed),
+    name: r.name,
+    elo: r.elo == null ? null : Number(r.elo),
+  }));
+
+  return { row: q.rows[0], entrants, matches: m.rows.map(shapeMatchRow) };
+}
+
+type LoadedTournament = NonNullable<Awaited<ReturnType<typeof loadTournament>>>;
+
+function shapeTournament({ row, entrants, matches }: LoadedTournament) {
+  const base = process.env.PUBLIC_BASE_URL || "https://cipher.uno";
+  const game = row.game as DraftGame;
+  const nameOf = (id: string | null) =>
+    id == null ? null : id === BYE ? "BYE" : entrants.find((e) => e.discordId === id)?.name ?? id;
+
+  return {
+    key: row.tournament_key,
+    name: row.name,
+    game,
+    format: row.format,
+    bestOf: Number(row.best_of),
+    status: row.status,
+    champion: row.champion_id
+      ? { discordId: row.champion_id, name: nameOf(row.champion_id) }
+      : null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+    entrants,
+    matches: matches.map((m) => ({
+      id: m.id,
+      bracket: m.bracket,
+      round: m.round,
+      index: m.index,
+      p1: m.p1 ? { discordId: m.p1, name: nameOf(m.p1) } : null,
+      p2: m.p2 ? { discordId: m.p2, name: nameOf(m.p2) } : null,
+      winner: m.winner,
+      status: m.status,
+      winTo: m.winTo,
+      loseTo: m.loseTo,
+      sessionKey: m.sessionKey,
+      sessionUrl: m.sessionKey ? `${base}/${game}/s/${m.sessionKey}` : null,
+      seriesKey: m.seriesKey,
+    })),
+  };
+}
+
+/**
+ * Open a draft (bo1) or a series for every match that just became ready.
+ * p1 is blue / team1. Mutates the matches it starts. The organizer owns them
+ * and hands out the captain tokens (GET /api/tournaments/:key/tokens).
+ */
+async function startReadyMatches(t: LoadedTournament) {
+  const { row, entrants, matches } = t;
+  const game = row.game as DraftGame;
+  const bestOf = Number(row.best_of);
+  const nameOf = (id: string) => entrants.find((e) => e.discordId === id)?.name ?? id;
+
+  for (const m of matches) {
+    if (m.status !== "ready" || m.sessionKey || m.seriesKey) continue;
+    const team1 = nameOf(m.p1!);
+    const team2 = nameOf(m.p2!);
+
+    if (bestOf === 1) {
+      const created = await createSession(
+        game,
+        row.owner_user_id,
+        { ...(row.session_config || {}), team1, team2 },
+        { tournamentKey: row.tournament_key }
+      );
+      m.sessionKey = created.key;
+    } else {
+      const created = await createSeries(row.owner_user_id, {
+        game,
+        bestOf,
+        team1,
+        team2,
+        rules: row.series_rules,
+        session: row.session_config,
+      });
+      m.seriesKey = created.key;
+    }
+    m.status = "live";
+  }
+}
+
+async function saveMatches(key: string, matches: BracketMatch[]) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    for (const m of matches) {
+      await client.query(
+        `UPDATE tournament_matches
+            SET p1 = $3::text, p2 = $4::text, winner = $5::text, loser = $6::text,
+                status = $7::text, session_key = $8::text, series_key = $9::text
+          WHERE tournament_key = $1::text AND match_id = $2::text`,
+        [key, m.id, m.p1, m.p2, m.winner, m.loser, m.status, m.sessionKey ?? null, m.seriesKey ?? null]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record a match winner, start whatever became playable and close the
+ * tournament once a champion is known. Returns the bracket error, if any.
+ * Results for one tournament are applied one at a time across instances.
+ */
+function advanceTournament(key: string, matchId: string, winnerId: string): Promise<string | null> {
+  return withAdvisoryLock(`tournament:advance:${key}`, async () => {
+    const t = await loadTournament(key);
+    if (!t) return "Tournament not found";
+    if (t.row.status === "complete") return "Tournament is already complete";
+
+    const err = recordWinner(t.matches, matchId, winnerId);
+    if (err) return err;
+
+    await startReadyMatches(t);
+    await saveMatches(key, t.matches);
+
+    const champ = champion(t.matches, t.row.format as BracketFormat);
+    if (champ) {
+      await pool.query(
+        `UPDATE tournaments
+            SET status = 'complete', champion_id = $2::text, completed_at = now()
+          WHERE tournament_key = $1::text`,
+        [key, champ]
+      );
+    }
+    return null;
+  });
+}
+
+onDraftResult(async ({ game, key }) => {
+  const q = await pool.query(
+    `SELECT s.tournament_key, s.result, m.match_id, m.p1, m.p2
+       FROM ${sessionsTable(game)} s
+       JOIN tournament_matches m
+         ON m.tournament_key = s.tournament_key AND m.session_key = s.session_key
+      WHERE s.session_key = $1::text`,
+    [key]
+  );
+  const r = q.rows[0];
+  const side = r?.result?.winner;
+  if (!r || (side !== "B" && side !== "R")) return; // draws wait for the owner
+  const err = await advanceTournament(r.tournament_key, r.match_id, side === "B" ? r.p1 : r.p2);
+  if (err) console.warn(`tournament ${r.tournament_key}: ${err}`);
+});
+
+onSeriesResult(async ({ key, winner }) => {
+  const q = await pool.query(
+    `SELECT tournament_key, match_id, p1, p2
+       FROM tournament_matches
+      WHERE series_key = $1::text`,
+    [key]
+  );
+  const r = q.rows[0];
+  if (!r) return;
+  const err = await advanceTournament(r.tournament_key, r.match_id, winner === "team1" ? r.p1 : r.p2);
+  if (err) console.warn(`tournament ${r.tournament_key}: ${err}`);
+});
+
+/* ───────────────── CREATE tournament ─────────────────
+Body: {
+  name: string,
+  game: 'hsr'|'zzz',
+  format: 'single'|'double',
+  bestOf?: 1|3|5|7|9,
+  entrants: string[],            // discord ids, seeded by current ELO
+  session: { mode, featured?, costProfileId?, costLimit?, ... },
+  seriesRules?: { pickCarryover?, swapSides? }
+}
+*/
+router.post("/api/tournaments", requireLogin, async (req, res): Promise<void> => {
+  const viewer = (req as any).user as { id: string };
+  const { name, game, format, entrants, session, seriesRules } = req.body || {};
+  const bestOf = req.body?.bestOf == null ? 1 : Number(req.body.bestOf);
+
+  if (typeof name !== "string" || !name.trim() || name.length > 80) {
+    return void res.status(400).json({ error: "Missing or invalid name" });
+  }
+  if (!GAMES.has(game) || !FORMATS.has(format) || !isValidBestOf(bestOf)) {
+    return void res.status(400).json({ error: "Missing or invalid body" });
+  }
+  const ids = Array.isArray(entrants) ? [...new Set(entrants.map(String))] : [];
+  if (ids.length < MIN_ENTRANTS || ids.length > MAX_ENTRANTS) {
+    return void res
+      .status(400)
+      .json({ error: `Between ${MIN_ENTRANTS} and ${MAX_ENTRANTS} entrants are required` });
+  }
+  const invalid =
+    bestOf === 1
+      ? checkCreateBody(game, { ...(session || {}), team1: "A", team2: "B" })
+      : checkSeriesInput({ game, bestOf, team1: "A", team2: "B", rules: seriesRules, session });
+  if (invalid) return void res.status(400).json({ error: invalid });
+
+  try {
+    const { rows: known } = await pool.query(
+      `SELECT x.id AS discord_id, p.elo, p.nickname, du.global_name, du.username
+         FROM unnest($1::text[]) AS x(id)
+    LEFT JOIN players p ON p.discord_id = x.id
+    LEFT JOIN discord_usernames du ON du.discord_id = x.id`,
+      [ids]
+    );
+    const info = new Map<string, any>(known.map((r: any) => [r.discord_id, r]));
+
+    // seed by current ELO; entrants without a ranked record go last, in the given order
+    const seeded = ids
+      .map((id, i) => ({ id, i, elo: info.get(id)?.elo == null ? null : Number(info.get(id).elo) }))
+      .sort((a, b) => (b.elo ?? -Infinity) - (a.elo ?? -Infinity) || a.i - b.i);
+
+    // team names double as session team labels, so keep them distinct
+    const used = new Set<string>();
+    const list: Entrant[] = seeded.map((s, i) => {
+      const r = info.get(s.id);
+      const baseName = (r?.nickname || r?.global_name || r?.username || s.id).slice(0, 40);
+      let label = baseName;
+      for (let n = 2; used.has(label); n++) label = `${baseName} (${n})`;
+      used.add(label);
+      return { discordId: s.id, seed: i + 1, name: label, elo: s.elo };
+    });
+
+    const key = genKey(12);
+    const matches = buildBracket(list.map((e) => e.discordId), format);
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `INSERT INTO tournaments
+          (tournament_key, owner_user_id, name, game, format, best_of,
+           session_config, series_rules, status)
+         VALUES ($1::text, $2::text, $3::text, $4::text, $5::text, $6::int,
+                 $7::jsonb, $8::jsonb, 'running')`,
+        [
+          key,
+          viewer.id,
+          name.trim(),
+          game,
+          format,
+          bestOf,
+          JSON.stringify(session || {}),
+          JSON.stringify(seriesRules || {}),
+        ]
+      );
+      for (const e of list) {
+        await client.query(
+          `INSERT INTO tournament_entrants (tournament_key, discord_id, seed, name, elo)
+           VALUES ($1::text, $2::text, $3::int, $4::text, $5::int)`,
+          [key, e.discordId, e.seed, e.name, e.elo]
+        );
+      }
+      for (const m of matches) {
+        await client.query(
+          `INSERT INTO tournament_matches
+            (tournament_key, match_id, bracket, round, idx, p1, p2, winner, loser,
+             status, win_to, lose_to)
+           VALUES ($1::text, $2::text, $3::text, $4::int, $5::int, $6::text, $7::text,
+                   $8::text, $9::text, $10::text, $11::jsonb, $12::jsonb)`,
+          [
+            key,
+            m.id,
+            m.bracket,
+            m.round,
+            m.index,
+            m.p1,
+            m.p2,
+            m.winner,
+            m.loser,
+            m.status,
+            m.winTo ? JSON.stringify(m.winTo) : null,
+            m.loseTo ? JSON.stringify(m.loseTo) : null,
+          ]
+        );
+      }
+      await client.query("COMMIT");
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+
+    const t = (await loadTournament(key))!;
+    await startReadyMatches(t);
+    await saveMatches(key, t.matches);
+
+    res.json(shapeTournament((await loadTournament(key))!));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to create tournament" });
+  }
+});
+
+/* ───────────────── LIST tournaments (public) ───────────────── */
+router.get("/api/tournaments", async (req, res): Promise<void> => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+  try {
+    const q = await pool.query(
+      `SELECT t.tournament_key, t.name, t.game, t.format, t.best_of, t.status,
+              t.champion_id, t.created_at, t.completed_at,
+              (SELECT COUNT(*) FROM tournament_entrants e
+                WHERE e.tournament_key = t.tournament_key)::int AS entrant_count
+         FROM tournaments t
+        ORDER BY t.created_at DESC
+        LIMIT $1::int`,
+      [limit]
+    );
+    res.json({
+      data: q.rows.map((r: any) => ({
+        key: r.tournament_key,
+        name: r.name,
+        game: r.game,
+        format: r.format,
+        bestOf: Number(r.best_of),
+        status: r.status,
+        championId: r.champion_id,
+        entrantCount: r.entrant_count,
+        createdAt: r.created_at,
+        completedAt: r.completed_at,
+      })),
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to load tournaments" });
+  }
+});
+
+/* ───────────────── READ bracket (public) ───────────────── */
+router.get("/api/tournaments/:key", async (req, res): Promise<void> => {
+  const { key } = req.params as { key: string };
+  try {
+    const t = await loadTournament(key);
+    if (!t) return void res.status(404).json({ error: "Tournament not found" });
+    res.json(shapeTournament(t));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to load tournament" });
+  }
+});
+
+/* ───────────────── Captain tokens of live matches (owner) ─────────────────
+Bracket drafts are owned by the organizer; this is how they hand each
+entrant their side. p1 is blue / team1. Series tokens last the whole series.
+*/
+router.get("/api/tournaments/:key/tokens", requireLogin, async (req, res): Promise<void> => {
+  const viewer = (req as any).user as { id: string };
+  const { key } = req.params as { key: string };
+
+  try {
+    const t = await pool.query(
+      `SELECT owner_user_id, game FROM tournaments WHERE tournament_key = $1::text`,
+      [key]
+    );
+    if (!t.rows.length) return void res.status(404).json({ error: "Tournament not found" });
+    if (t.rows[0].owner_user_id !== viewer.id) {
+      return void res.status(403).json({ error: "Not your tournament" });
+    }
+    const game = t.rows[0].game as DraftGame;
+
+    const { rows } = await pool.query(
+      `SELECT m.match_id, m.p1, m.p2, m.session_key, m.series_key,
+              COALESCE(s.blue_token, ds.team1_token) AS p1_token,
+              COALESCE(s.red_token, ds.team2_token) AS p2_token
+         FROM tournament_matches m
+    LEFT JOIN ${sessionsTable(game)} s ON s.session_key = m.session_key
+    LEFT JOIN draft_series ds ON ds.series_key = m.series_key
+        WHERE m.tournament_key = $1::text
+          AND m.status = 'live'
+        ORDER BY m.bracket DESC, m.round ASC, m.idx ASC`,
+      [key]
+    );
+    res.json({
+      matches: rows.map((r: any) => ({
+        matchId: r.match_id,
+        sessionKey: r.session_key ?? null,
+        seriesKey: r.series_key ?? null,
+        p1: { discordId: r.p1, token: r.p1_token ?? null },
+        p2: { discordId: r.p2, token: r.p2_token ?? null },
+      })),
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to load tokens" });
+  }
+});
+
+/* ───────────────── Owner override: set a match winner ─────────────────
+Used for draws, no-shows and matches played outside the drafter.
+Body: { winner: discordId }
+*/
+router.post(
+  "/api/tournaments/:key/matches/:matchId/result",
+  requireLogin,
+  async (req, res): Promise<void> => {
+    const viewer = (req as any).user as { id: string };
+    const { key, matchId } = req.params as { key: string; matchId: string };
+    const winner = String(req.body?.winner ?? "");
+
+    try {
+      const q = await pool.query(
+        `SELECT owner_user_id FROM tournaments WHERE tournament_key = $1::text`,
+        [key]
+      );
+      if (!q.rows.length) return void res.status(404).json({ error: "Tournament not found" });
+      if (q.rows[0].owner_user_id !== viewer.id) {
+        return void res.status(403).json({ error: "Not your tournament" });
+      }
+
+      const err = await advanceTournament(key, matchId, winner);
+      if (err) return void res.status(409).json({ error: err });
+
+      res.json(shapeTournament((await loadTournament(key))!));
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: "Failed to record result" });
+    }
+  }
+);
+
+export default router;
@@ -2,6 +2,81 @@
 import express, { RequestHandler } from "express";
 import { pool } from "../db";
 import { genKey } from "../utils/genKey";
+import {
+  ZzzMode,
+  buildInitialState,
+  isKnownSequence,
+  keepServerOwned,
+  sameSequence,
+} from "../utils/draftSequences";
+import { initialReplayState, replayDraft, shapeLogRow } from "../utils/draftLog";
+import {
+  applyTimeoutPolicy,
+  burnToNow,
+  isBlindTok,
+  isTurnTimedOut,
+  mergeTimerBody,
+  resetGraceForNewTurn,
+  sanitizeTimeoutPolicy,
+  sideOfTok,
+} from "../utils/draftTimer";
+import { parseExpectedVersion, parseSpectatorDelay } from "../utils/sessionParams";
+import {
+  CostTables,
+  computeTeamCosts,
+  getDefaultCostTables,
+} from "../utils/teamCost";
+import {
+  DEFAULT_PENALTY_PER_POINT,
+  DraftResult,
+  ScoreReport,
+  applyScoreConfirm,
+  applyScoreReport,
+  computeResult,
+  forfeitResult,
+  sanitizeScores,
+} from "../utils/draftResult";
+import { requireAdmin } from "../middleware/requireAdmin";
+import { CreatedSession, SessionLink } from "../utils/draftSeries";
+import { emitDraftResult } from "../utils/draftEvents";
+import {
+  BlindCollisionRule,
+  BlindPending,
+  BlindReveal,
+  hideBlindSubmissions,
+  keepBlindPending,
+  sanitizeBlindCollision,
+  submitBlindBan,
+} from "../utils/blindBan";
+import {
+  Participant,
+  buildParticipants,
+  parseBindUserId,
+  publicParticipants,
+  resolvePlayerSide,
+  sanitizeParticipantRules,
+} from "../utils/sideAuth";
+import {
+  REFEREE_OPS,
+  RefereeOp,
+  applyRefereeOp,
+  refereeLogPayload,
+  staffOnlyFields,
+  sanitizeReason,
+} from "../utils/referee";
+import {
+  ChatMessage,
+  ChatRole,
+  MAX_CHAT_LEN,
+  allowChat,
+  sanitizeChatBody,
+  shapeChatRow,
+  systemLineFor,
+} from "../utils/draftChat";
+import { ActionReply } from "../utils/draftSocket";
+import { createDraftHub } from "../utils/draftHub";
+import { lifecycleOf } from "../utils/sessionLifecycle";
+import { cloneCreateBody } from "../utils/sessionClone";
 
 const router = express.Router();
 
@@ -15,30 +90,42 @@ const requireLogin: RequestHandler = (req, res, next) => {
   next();
 };
 
-// Shared draft JSON shapes (match what the frontend sends/stores)
-type ZzzMode = "2v2" | "3v3";
+const VALID_MODES: ReadonlySet<ZzzMode> = new Set(["2v2", "3v3"]);
 
-function shapeSessionRow(row: any) {
+function shapeSessionRow(row: any, defaultCosts?: CostTables) {
   // NUMERIC comes back as string; normalize here
   const costLimit =
     row.cost_limit == null ? null : Number(row.cost_limit);
   const penaltyPerPoint =
-    row.penalty_per_point == null ? 2500 : Number(row.penalty_per_point);
+    row.penalty_per_point == null
+      ? DEFAULT_PENALTY_PER_POINT.zzz
+      : Number(row.penalty_per_point);
 
   const payload: any = {
     mode: row.mode,
     team1: row.team1,
     team2: row.team2,
-    state: row.state,
+    state: hideBlindSubmissions(row.state),
     featured: row.featured,
     is_complete: row.is_complete,
+    lifecycle: lifecycleOf(row),
     last_activity_at: row.last_activity_at,
     completed_at: row.completed_at,
+    version: Number(row.state_version ?? 0),
     costProfileId: row.cost_profile_id || null,
 
     // ✅ now guaranteed numbers (or null for costLimit)
     costLimit,
     penaltyPerPoint,
+    // false for legacy sessions whose sequence was hand-edited by a client
+    sequenceVerified: isKnownSequence("zzz", row.mode, row.state?.draftSequence),
+    scoreStatus: row.state?.scoreStatus ?? "pending",
+    result: row.result ?? null,
+    spectatorDelaySeconds: Number(row.spectator_delay_seconds ?? 0),
+    seriesKey: row.series_key ?? null,
+    seriesGame: row.series_game == null ? null : Number(row.series_game),
+    participants: publicParticipants(row.participants),
+    participantRules: sanitizeParticipantRules(row.participant_rules),
   };
 
   if (row.cost_profile_id) {
@@ -48,6 +135,33 @@ function shapeSessionRow(row: any) {
       wePhase: row.cp_we_phase || {},
     };
   }
+
+  // server-side cost maths: attached preset first, else the default tables
+  if (row.cost_profile_id || defaultCosts) {
+    const tables: CostTables = row.cost_profile_id
+      ? { charMs: row.cp_char_ms || {}, equip: row.cp_we_phase || {} }
+      : defaultCosts!;
+    const costs = computeTeamCosts(row.state, tables, {
+      equipKey: "wengineId",
+      featured: sanitizeFeatured(row.featured),
+      costLimit,
+      penaltyPerPoint,
+    });
+    payload.teamCosts = {
+      source: row.cost_profile_id ? "preset" : "default",
+      blue: costs.B,
+      red: costs.R,
+    };
+  }
+
+  // expose timer settings at top-level (while still keeping them in state)
+  const st = row.state || {};
+  if (typeof st.timerEnabled === "boolean")
+    payload.timerEnabled = !!st.timerEnabled;
+  if (Number.isFinite(Number(st.reserveSeconds)))
+    payload.reserveSeconds = Math.max(0, Number(st.reserveSeconds));
+  payload.timeoutPolicy = sanitizeTimeoutPolicy(st.timeoutPolicy);
+
   return payload;
 }
 
@@ -175,42 +289,186 @@ interface SpectatorState {
   redScores: number[];
   blueLocked?: boolean;
   redLocked?: boolean;
+  paused?: { B: boolean; R: boolean };
+
+  // Authoritative timer fields (optional)
+  timerEnabled?: boolean;
+  reserveSeconds?: number;
+  reserveLeft?: { B: number; R: number };
+  graceLeft?: number;
+  timerUpdatedAt?: number;
+  timeoutPolicy?: "none" | "skip" | "random" | "forfeit";
+  forfeitedBy?: "B" | "R";
+
+  // Score reporting (each side reports both sides' per-half scores)
+  scoreReports?: { B?: ScoreReport; R?: ScoreReport };
+  scoreStatus?: "pending" | "reported" | "confirmed" | "disputed" | "resolved";
+
+  // Blind ban phases: hidden submissions, never sent to clients
+  blindPending?: BlindPending;
+  blindCollision?: BlindCollisionRule;
+
+  // Characters each side may not pick (series carry-over rules)
+  sideBans?: { B: string[]; R: string[] };
 }
 
-/* ───────────────── SSE Hub ───────────────── */
-type Client = import("express").Response;
-const clients = new Map<string, Set<Client>>();
-
-function addClient(key: string, res: Client) {
-  let set = clients.get(key);
-  if (!set) clients.set(key, (set = new Set()));
-  set.add(res);
-  res.on("close", () => {
-    set!.delete(res);
-    if (set!.size === 0) clients.delete(key);
-  });
-}
-
-function push(key: string, event: string, payload: any) {
-  const set = clients.get(key);
-  if (!set) return;
-  const line = `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`;
-  for (const res of set) res.write(line);
-}
-
-async function snapshotAndPush(key: string) {
+/* ───────────────── SSE hub ───────────────── */
+async function loadShapedSession(key: string, asOfSecondsAgo = 0) {
   const { rows } = await pool.query(
     `SELECT
         s.mode, s.team1, s.team2, s.state, s.featured, s.is_complete,
         s.last_activity_at, s.completed_at, s.cost_profile_id,
-        s.cost_limit, s.penalty_per_point,
+        s.cost_limit, s.penalty_per_point, s.state_version, s.result, s.spectator_delay_seconds,
+        s.series_key, s.series_game, s.blue_user_id, s.red_user_id,
+        s.participants, s.participant_rules, s.referees, s.lifecycle,
         cp.name AS cp_name, cp.char_ms AS cp_char_ms, cp.we_phase AS cp_we_phase
      FROM zzz_draft_sessions s
      LEFT JOIN zzz_cost_presets cp ON cp.id = s.cost_profile_id
     WHERE s.session_key = $1::text`,
     [key]
   );
-  if (rows.length) push(key, "update", shapeSessionRow(rows[0]));
+  if (!rows.length) return null;
+  const row = rows[0];
+  if (asOfSecondsAgo) row.state = await stateAsOf(key, row.state, asOfSecondsAgo);
+  return shapeSessionRow(row, await getDefaultCostTables("zzz"));
+}
+
+/** The draft state as it stood `seconds` ago, rebuilt from the action log */
+async function stateAsOf(key: string, current: any, seconds: number) {
+  const { rows } = await pool.query(
+    `SELECT id, op, side, payload, turn_after, participant_id, created_at
+       FROM zzz_draft_actions
+      WHERE session_key = $1::text
+        AND created_at <= now() - ($2::int * INTERVAL '1 second')
+      ORDER BY id ASC`,
+    [key, seconds]
+  );
+  const actions = rows.map(shapeLogRow);
+  return replayDraft(initialReplayState(actions, current), actions, "wengineId").state;
+}
+
+const hub = createDraftHub({
+  game: "zzz",
+  table: "zzz_draft_sessions",
+  loadShapedSession,
+  resolveTimeout,
+  applyAction,
+});
+const { push, snapshotAndPush, presenceOf } = hub;
+
+/**
+ * What a viewer off the live channel may see of a session with a broadcast
+ * delay: the stream's delayed snapshot when this instance has one, else the
+ * session rebuilt from the action log as of `spectatorDelaySeconds` ago.
+ */
+async function delayedSession(key: string, shaped: any) {
+  const delay = Number(shaped.spectatorDelaySeconds || 0);
+  if (!delay) return shaped;
+  return hub.delayedView(key) ?? (await loadShapedSession(key, delay));
+}
+
+/** Cost penalties per side, from the same numbers the session payload shows */
+async function loadPenalties(key: string): Promise<{ B: number; R: number }> {
+  const costs = (await loadShapedSession(key))?.teamCosts;
+  return { B: costs?.blue.penalty ?? 0, R: costs?.red.penalty ?? 0 };
+}
+
+/** 409 for a write made against an outdated version; carries the current snapshot */
+async function sendStale(res: ActionReply, key: string) {
+  const session = await loadShapedSession(key);
+  res.status(409).json({
+    error: "Stale version",
+    version: session?.version ?? null,
+    session,
+  });
+}
+
+/* ───────────────── Timeout resolution (system action) ───────────────── */
+const resolvingTimeouts = new Set<string>();
+
+/**
+ * Apply the session's timeout policy to the turn on the clock. Driven by the
+ * ticker and by late actions; safe to call repeatedly (version-guarded).
+ */
+async function resolveTimeout(key: string) {
+  if (resolvingTimeouts.has(key)) return;
+  resolvingTimeouts.add(key);
+  try {
+    const q = await pool.query(
+      `SELECT state, featured, is_complete, state_version, lifecycle
+         FROM zzz_draft_sessions
+        WHERE session_key = $1::text`,
+      [key]
+    );
+    if (!q.rows.length || q.rows[0].is_complete === true || q.rows[0].lifecycle) return;
+    const row = q.rows[0];
+
+    const now = Date.now();
+    const burned: any = burnToNow(row.state, now);
+    const policy = sanitizeTimeoutPolicy(burned.timeoutPolicy);
+    if (policy === "none" || !isTurnTimedOut(burned)) return;
+    const index: number = burned.currentTurn;
+
+    const featuredChars = sanitizeFeatured(row.featured).filter(isChar);
+    const codes =
+      policy === "forfeit" ? [] : (await pool.query(`SELECT code FROM zzz_characters`)).rows;
+    const { state: st, side, result, blindReveal, logPayload } = applyTimeoutPolicy(
+      burned,
+      policy,
+      now,
+      "wengineId",
+      codes.map((r) => String(r.code)),
+      {
+        globalBan: new Set(
+          featuredChars.filter((f) => f.rule === "globalBan").map((f) => f.code)
+        ),
+        globalPick: new Set(
+          featuredChars.filter((f) => f.rule === "globalPick").map((f) => f.code)
+        ),
+      }
+    );
+
+    const upd = await pool.query(
+      `WITH upd AS (
+         UPDATE zzz_draft_sessions
+            SET state = $2::jsonb,
+                state_version = state_version + 1,
+                is_complete = CASE WHEN $8::boolean THEN TRUE ELSE is_complete END,
+                result = CASE WHEN $8::boolean THEN $9::jsonb ELSE result END,
+                completed_at = CASE WHEN $8::boolean AND completed_at IS NULL THEN now() ELSE completed_at END,
+                last_activity_at = now()
+          WHERE session_key = $1::text
+            AND state_version = $7::int
+          RETURNING session_key
+       )
+       INSERT INTO zzz_draft_actions (session_key, op, side, payload, turn_after)
+       SELECT session_key, $3::text, $4::text, $5::jsonb, $6::int FROM upd
+       RETURNING id`,
+      [
+        key,
+        JSON.stringify(st),
+        "timeout",
+        side,
+        JSON.stringify(logPayload),
+        st.currentTurn,
+        Number(row.state_version ?? 0),
+        result === "forfeit",
+        result === "forfeit" ? JSON.stringify(forfeitResult(side)) : null,
+      ]
+    );
+    if (!upd.rows.length) return;
+
+    await snapshotAndPush(key);
+    push(key, "timeout", { side, ...logPayload });
+    if (blindReveal) push(key, "blindReveal", blindReveal);
+    await announce(key, "timeout", side, logPayload);
+    if (blindReveal) await announce(key, "blindBan", null, { index, reveal: blindReveal });
+    if (result === "forfeit") emitDraftResult({ game: "zzz", key });
+  } catch (e) {
+    console.error(e);
+  } finally {
+    resolvingTimeouts.delete(key);
+  }
 }
 
 /* ───────────────── Helpers ───────────────── */
@@ -234,47 +492,227 @@ function isValidState(s: any): boolean {
   return okPicks;
 }
 
-const isBanToken = (tok: string) => tok === "BB" || tok === "RR";
+/** Append an owner/server entry (init, ownerEdit) to the action log */
+async function appendLog(key: string, op: string, payload: any, turnAfter: number) {
+  await pool.query(
+    `INSERT INTO zzz_draft_actions (session_key, op, side, payload, turn_after)
+     VALUES ($1::text, $2::text, NULL, $3::jsonb, $4::int)`,
+    [key, op, JSON.stringify(payload), turnAfter]
+  );
+}
+
+/* ───────────────── Chat ───────────────── */
+async function postChat(
+  key: string,
+  role: ChatRole,
+  side: "B" | "R" | null,
+  name: string,
+  body: string
+): Promise<ChatMessage> {
+  const q = await pool.query(
+    `INSERT INTO zzz_draft_chat (session_key, role, side, name, body)
+     VALUES ($1::text, $2::text, $3::text, $4::text, $5::text)
+     RETURNING id, role, side, name, body, created_at`,
+    [key, role, side, name, body]
+  );
+  const msg = shapeChatRow(q.rows[0]);
+  push(key, "chat", msg);
+  return msg;
+}
+
+/** System chat line for a logged action; a chat failure never fails the action */
+async function announce(key: string, op: string, side: "B" | "R" | null, payload: any) {
+  try {
+    const codes = [payload?.characterCode, payload?.reveal?.blue, payload?.reveal?.red]
+      .filter((c) => typeof c === "string" && c);
+    const names: Record<string, string> = {};
+    if (codes.length) {
+      const q = await pool.query(
+        `SELECT code, name FROM zzz_characters WHERE code = ANY($1::text[])`,
+        [codes]
+      );
+      for (const r of q.rows) names[r.code] = r.name;
+    }
+    const line = systemLineFor(op, side, payload, (c) => names[c] || c);
+    if (line) await postChat(key, "system", null, "System", line);
+  } catch (e) {
+    console.error("chat announce failed:", e);
+  }
+}
+
+const isBanToken = (tok: string) =>
+  tok === "BB" || tok === "RR" || isBlindTok(tok);
 const sideOfToken = (tok: string) =>
   tok?.startsWith("B") ? "B" : tok?.startsWith("R") ? "R" : "";
 const sideLocked = (s: SpectatorState, side: "B" | "R") =>
   side === "B" ? !!s.blueLocked : !!s.redLocked;
 
+/* ───────────────── Session creation (shared) ─────────────────
+   Used by POST /api/zzz/sessions and by everything that spawns sessions
+   on an owner's behalf (series, brackets, ...).
+────────────────────────────────────────────────── */
+/** null when the create body is usable, otherwise the 400 message */
+export function checkZzzCreateBody(body: any): string | null {
+  const { team1, team2, mode, state } = body || {};
+  const modeStr = String(mode) as ZzzMode;
+
+  if (!team1 || !team2 || !VALID_MODES.has(modeStr)) return "Missing or invalid body";
+
+  // Sequence is server-owned: a client-sent one must be the mode's template
+  if (
+    state?.draftSequence !== undefined &&
+    !isKnownSequence("zzz", modeStr, state.draftSequence)
+  ) {
+    return "Unknown draft sequence for mode";
+  }
+  if (
+    parseBindUserId(body.blueUserId) === undefined ||
+    parseBindUserId(body.redUserId) === undefined
+  ) {
+    return "Invalid blueUserId / redUserId";
+  }
+  if (buildParticipants(body.participants) === null) return "Invalid participants";
+  return null;
+}
+
+/** Insert a session from a checked create body; `link` ties it to a series/bracket */
+export async function createZzzSession(
+  ownerId: string,
+  body: any,
+  link: SessionLink = {}
+): Promise<CreatedSession> {
+  const {
+    team1,
+    team2,
+    mode,
+    state,
+    featured,
+    costProfileId,
+    costLimit: costLimitRaw,
+    penaltyPerPoint: penaltyRaw,
+  } = body;
+  const modeStr = String(mode) as ZzzMode;
+
+  const initialState = mergeTimerBody(
+    buildInitialState("zzz", modeStr, state, { blind: body.blindBans === true }),
+    body
+  );
+  if (initialState.draftSequence.some(isBlindTok))
+    initialState.blindCollision = sanitizeBlindCollision(body.blindCollision);
+  if (link.sideBans) initialState.sideBans = link.sideBans;
+
+  const key = genKey(22);
+  const blueToken = link.blueToken ?? genKey(20);
+  const redToken = link.redToken ?? genKey(20);
+  const participants = buildParticipants(body.participants) ?? [];
+  const spectatorDelay = parseSpectatorDelay(body.spectatorDelaySeconds) ?? 0;
+
+  // cost defaults (mode-aware)
+  const parsedCL = Number(costLimitRaw);
+  const finalCostLimit =
+    Number.isFinite(parsedCL) && parsedCL > 0
+      ? parsedCL
+      : mode === "3v3"
+      ? 9
+      : 6;
+
+  const parsedPenalty = Number(penaltyRaw);
+  const finalPenaltyPerPoint =
+    Number.isFinite(parsedPenalty) && parsedPenalty > 0
+      ? Math.floor(parsedPenalty)
+      : DEFAULT_PENALTY_PER_POINT.zzz;
+
+  // Validate preset ownership if provided
+  let presetId: string | null = null;
+  if (typeof costProfileId === "string" && costProfileId) {
+    const q = await pool.query(
+      `SELECT id FROM zzz_cost_presets WHERE id = $1::uuid AND owner_user_id = $2::text`,
+      [costProfileId, ownerId]
+    );
+    presetId = q.rows.length ? q.rows[0].id : null;
+  }
+
+  const featuredSan = sanitizeFeatured(featured ?? []);
+  await pool.query(
+    `INSERT INTO zzz_draft_sessions
+      (session_key, owner_user_id, mode, team1, team2, state, featured,
+       blue_token, red_token, cost_profile_id, cost_limit, penalty_per_point,
+       spectator_delay_seconds, series_key, series_game, tournament_key,
+       swiss_event_key, matchmaking, blue_user_id, red_user_id, participants, participant_rules)
+    VALUES ($1::text, $2::text, $3::text, $4::text, $5::text, $6::jsonb, $7::jsonb,
+            $8::text, $9::text, $10::uuid, $11::numeric, $12::int, $13::int,
+            $14::text, $15::int, $16::text, $17::text, $18::boolean, $19::text,
+            $20::text, $21::jsonb, $22::jsonb)`,
+    [
+      key,
+      ownerId,
+      modeStr,
+      team1,
+      team2,
+      JSON.stringify(initialState),
+      JSON.stringify(featuredSan),
+      blueToken,
+      redToken,
+      presetId,
+      finalCostLimit,
+      finalPenaltyPerPoint,
+      spectatorDelay,
+      link.seriesKey ?? null,
+      link.seriesGame ?? null,
+      link.tournamentKey ?? null,
+      link.swissEventKey ?? null,
+      link.matchmaking === true,
+      parseBindUserId(body.blueUserId) ?? null,
+      parseBindUserId(body.redUserId) ?? null,
+      JSON.stringify(participants),
+      JSON.stringify(sanitizeParticipantRules(body.participantRules)),
+    ]
+  );
+  await appendLog(key, "init", { state: initialState }, 0);
+
+  await snapshotAndPush(key);
+
+  const url = `${
+    process.env.PUBLIC_BASE_URL || "https://cipher.uno"
+  }/zzz/s/${key}`;
+  return {
+    key,
+    url,
+    blueToken,
+    redToken,
+    costProfileId: presetId,
+    costLimit: finalCostLimit,
+    penaltyPerPoint: finalPenaltyPerPoint,
+    spectatorDelaySeconds: spectatorDelay,
+    participants,
+  };
+}
+
 /* ───────────────── CREATE session ───────────────── */
 router.post(
   "/api/zzz/sessions",
   requireLogin,
   async (req, res): Promise<void> => {
     const viewer = (req as any).user as { id: string };
-    const {
-      team1,
-      team2,
-      mode,
-      state,
-      featured,
-      costProfileId,
-      costLimit: costLimitRaw,
-      penaltyPerPoint: penaltyRaw,
-    } = req.body || {};
 
-    if (
-      !team1 ||
-      !team2 ||
-      (mode !== "2v2" && mode !== "3v3") ||
-      !state ||
-      !isValidState(state)
-    ) {
-      res.status(400).json({ error: "Missing or invalid body" });
+    const invalid = checkZzzCreateBody(req.body);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
       return;
     }
 
-    // If the owner already has an unfinished session, reuse it and also return tokens
+    // Reuse unfinished session per owner (series/bracket games don't count)
     const existing = await pool.query(
       `SELECT session_key, mode, team1, team2, state, is_complete, last_activity_at, completed_at,
-              blue_token, red_token, cost_profile_id, cost_limit, penalty_per_point
+              blue_token, red_token, cost_profile_id, cost_limit, penalty_per_point, participants
          FROM zzz_draft_sessions
         WHERE owner_user_id = $1::text
           AND is_complete IS NOT TRUE
+          AND lifecycle IS NULL
+          AND series_key IS NULL
+          AND tournament_key IS NULL
+          AND swiss_event_key IS NULL
+          AND matchmaking IS NOT TRUE
         ORDER BY last_activity_at DESC
         LIMIT 1`,
       [viewer.id]
@@ -291,6 +729,7 @@ router.post(
         reused: true,
         blueToken: ex.blue_token || null,
         redToken: ex.red_token || null,
+        participants: ex.participants || [],
         costProfileId: ex.cost_profile_id || null,
         costLimit: Number(ex.cost_limit),
         penaltyPerPoint: ex.penalty_per_point,
@@ -298,78 +737,53 @@ router.post(
       return;
     }
 
-    const key = genKey(22);
-    const blueToken = genKey(20);
-    const redToken = genKey(20);
-
-    // cost defaults (mode-aware)
-    const parsedCL = Number(costLimitRaw);
-    const finalCostLimit =
-      Number.isFinite(parsedCL) && parsedCL > 0
-        ? parsedCL
-        : mode === "3v3"
-        ? 9
-        : 6;
-
-    const parsedPenalty = Number(penaltyRaw);
-    const finalPenaltyPerPoint =
-      Number.isFinite(parsedPenalty) && parsedPenalty > 0
-        ? Math.floor(parsedPenalty)
-        : 2500;
-
-    // Validate preset ownership if provided
-    let presetId: string | null = null;
-    if (typeof costProfileId === "string" && costProfileId) {
-      const q = await pool.query(
-        `SELECT id FROM zzz_cost_presets WHERE id = $1::uuid AND owner_user_id = $2::text`,
-        [costProfileId, viewer.id]
-      );
-      presetId = q.rows.length ? q.rows[0].id : null;
+    try {
+      res.json(await createZzzSession(viewer.id, req.body));
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: "Failed to create session" });
     }
+  }
+);
+
+/* ───────────────── OWNER: clone a session (rematch) ─────────────────
+Body: { swapSides?: boolean }
+Same teams, mode, featured list, cost preset/limit/penalty, timer, blind-ban
+and spectator-delay settings, bindings and participants; fresh key and
+tokens. Answers like create. Never reuses an open session.
+*/
+router.post(
+  "/api/zzz/sessions/:key/clone",
+  requireLogin,
+  async (req, res): Promise<void> => {
+    const viewer = (req as any).user as { id: string };
+    const { key } = req.params as { key: string };
+    const swap = req.body?.swapSides;
+    if (swap !== undefined && typeof swap !== "boolean")
+      return void res.status(400).json({ error: "Invalid swapSides" });
 
     try {
-      const featuredSan = sanitizeFeatured(featured ?? []);
-      const { rows } = await pool.query(
-        `INSERT INTO zzz_draft_sessions
-          (session_key, owner_user_id, mode, team1, team2, state, featured,
-           blue_token, red_token, cost_profile_id, cost_limit, penalty_per_point)
-        VALUES ($1::text, $2::text, $3::text, $4::text, $5::text, $6::jsonb, $7::jsonb,
-                $8::text, $9::text, $10::uuid, $11::numeric, $12::int)
-        RETURNING mode, team1, team2, state, featured, is_complete, last_activity_at, completed_at,
-                  cost_profile_id, cost_limit, penalty_per_point`,
-        [
-          key,
-          viewer.id,
-          mode,
-          team1,
-          team2,
-          JSON.stringify(state),
-          JSON.stringify(featuredSan),
-          blueToken,
-          redToken,
-          presetId,
-          finalCostLimit,
-          finalPenaltyPerPoint,
-        ]
+      const q = await pool.query(
+        `SELECT owner_user_id, mode, team1, team2, state, featured, cost_profile_id, cost_limit,
+                penalty_per_point, spectator_delay_seconds, blue_user_id, red_user_id,
+                participants, participant_rules
+           FROM zzz_draft_sessions
+          WHERE session_key = $1::text`,
+        [key]
       );
+      if (q.rows.length === 0)
+        return void res.status(404).json({ error: "Session not found" });
+      if (q.rows[0].owner_user_id !== viewer.id)
+        return void res.status(403).json({ error: "Forbidden" });
 
-      await snapshotAndPush(key);
+      const body = cloneCreateBody(q.rows[0], swap === true);
+      const invalid = checkZzzCreateBody(body);
+      if (invalid) return void res.status(409).json({ error: `Cannot clone: ${invalid}` });
 
-      const url = `${
-        process.env.PUBLIC_BASE_URL || "https://cipher.uno"
-      }/zzz/s/${key}`;
-      res.json({
-        key,
-        url,
-        blueToken,
-        redToken,
-        costProfileId: rows[0].cost_profile_id || null,
-        costLimit: Number(rows[0].cost_limit),
-        penaltyPerPoint: rows[0].penalty_per_point,
-      });
+      res.json(await createZzzSession(viewer.id, body));
     } catch (e) {
       console.error(e);
-      res.status(500).json({ error: "Failed to create session" });
+      res.status(500).json({ error: "Failed to clone session" });
     }
   }
 );
@@ -392,7 +806,7 @@ router.put(
 
     // Ownership check
     const owner = await pool.query(
-      `SELECT owner_user_id FROM zzz_draft_sessions WHERE session_key = $1::text`,
+      `SELECT owner_user_id, state FROM zzz_draft_sessions WHERE session_key = $1::text`,
       [key]
     );
     if (owner.rows.length === 0) {
@@ -409,7 +823,26 @@ router.put(
       "state"
     );
     const shouldUpdateState = hasStateKey && isValidState(state);
-    const stateJson = shouldUpdateState ? JSON.stringify(state) : null;
+    if (
+      shouldUpdateState &&
+      !sameSequence(state.draftSequence, owner.rows[0].state?.draftSequence)
+    ) {
+      res.status(400).json({ error: "draftSequence cannot be changed" });
+      return;
+    }
+    // score flow, carry-over bans and forfeits stay as the server wrote them
+    const stored = owner.rows[0].state;
+    const stateJson = shouldUpdateState
+      ? JSON.stringify(
+          keepBlindPending(keepServerOwned(mergeTimerBody(state, req.body), stored), stored)
+        )
+      : null;
+    const expectedVersion = parseExpectedVersion(req.body?.expectedVersion);
+    if (Number.isNaN(expectedVersion)) {
+      res.status(400).json({ error: "Invalid expectedVersion" });
+      return;
+    }
+
     const isCompleteParam =
       typeof isComplete === "boolean" ? isComplete : null;
 
@@ -462,10 +895,14 @@ router.put(
                                    CASE WHEN $6::int = 1 THEN NULL ELSE cost_profile_id END),
                 cost_limit = COALESCE($7::numeric, cost_limit),
                 penalty_per_point = COALESCE($8::int, penalty_per_point),
+                spectator_delay_seconds = COALESCE($10::int, spectator_delay_seconds),
+                state_version = state_version + 1,
                 last_activity_at = now()
           WHERE session_key = $1::text
+            AND ($9::int IS NULL OR state_version = $9::int)
           RETURNING mode, team1, team2, state, featured, is_complete, last_activity_at, completed_at,
-                    cost_profile_id, cost_limit, penalty_per_point`,
+                    cost_profile_id, cost_limit, penalty_per_point, spectator_delay_seconds,
+                    state_version`,
         [
           key,
           stateJson,
@@ -475,16 +912,29 @@ router.put(
           presetIdSql === null ? 1 : 0,
           hasCL ? clUpdate : null,
           hasPenalty ? penaltyUpdate : null,
+          expectedVersion,
+          parseSpectatorDelay(req.body?.spectatorDelaySeconds) ?? null,
         ]
       );
 
-      if (rows.length) await snapshotAndPush(key);
+      if (!rows.length) return void (await sendStale(res, key));
+      if (stateJson) {
+        await appendLog(
+          key,
+          "ownerEdit",
+          { state: hideBlindSubmissions(rows[0].state) },
+          rows[0].state.currentTurn
+        );
+      }
+      await snapshotAndPush(key);
       res.json({
         ok: true,
         stateUpdated: shouldUpdateState,
+        version: rows[0].state_version,
         costProfileId: rows[0]?.cost_profile_id ?? null,
         costLimit: Number(rows[0]?.cost_limit),
         penaltyPerPoint: rows[0]?.penalty_per_point,
+        spectatorDelaySeconds: Number(rows[0]?.spectator_delay_seconds ?? 0),
       });
     } catch (e) {
       console.error(e);
@@ -502,11 +952,16 @@ router.get(
 
     try {
       const { rows } = await pool.query(
-        `SELECT session_key, mode, team1, team2, state, featured, is_complete, last_activity_at, completed_at,
-                blue_token, red_token, cost_profile_id, cost_limit, penalty_per_point
+        `SELECT session_key, mode, team1, team2, state, featured, is_complete, last_activity_at, completed_at, state_version,
+                blue_token, red_token, cost_profile_id, cost_limit, penalty_per_point, participants
            FROM zzz_draft_sessions
           WHERE owner_user_id = $1::text
             AND is_complete IS NOT TRUE
+            AND lifecycle IS NULL
+            AND series_key IS NULL
+            AND tournament_key IS NULL
+            AND swiss_event_key IS NULL
+            AND matchmaking IS NOT TRUE
           ORDER BY last_activity_at DESC
           LIMIT 1`,
         [viewer.id]
@@ -525,13 +980,15 @@ router.get(
         mode: r.mode,
         team1: r.team1,
         team2: r.team2,
-        state: r.state,
+        state: hideBlindSubmissions(r.state),
         featured: r.featured,
         is_complete: r.is_complete,
         last_activity_at: r.last_activity_at,
         completed_at: r.completed_at,
+        version: r.state_version,
         blueToken: r.blue_token || null,
         redToken: r.red_token || null,
+        participants: r.participants || [],
         costProfileId: r.cost_profile_id || null,
         costLimit: Number(r.cost_limit),
         penaltyPerPoint: r.penalty_per_point,
@@ -547,20 +1004,28 @@ router.get(
 /* ───────────────── READ one session (public) ───────────────── */
 router.get("/api/zzz/sessions/:key", async (req, res) => {
   const { key } = req.params as { key: string };
+  const viewer = (req as any).user as { id?: string } | undefined;
   try {
-    const { rows } = await pool.query(
-      `SELECT
-          s.mode, s.team1, s.team2, s.state, s.featured, s.is_complete,
-          s.last_activity_at, s.completed_at, s.cost_profile_id,
-          s.cost_limit, s.penalty_per_point,
-          cp.name AS cp_name, cp.char_ms AS cp_char_ms, cp.we_phase AS cp_we_phase
-       FROM zzz_draft_sessions s
-       LEFT JOIN zzz_cost_presets cp ON cp.id = s.cost_profile_id
-      WHERE s.session_key = $1::text`,
-      [key]
-    );
-    if (!rows.length) return void res.status(404).json({ error: "Session not found" });
-    res.json(shapeSessionRow(rows[0]));
+    let shaped = await loadShapedSession(key);
+    if (!shaped)
+      return void res.status(404).json({ error: "Session not found" });
+    // ?pt (or being a captain / the owner) reads live, like the stream
+    if (!(await hub.isLiveViewer(key, String(req.query.pt || ""), viewer?.id)))
+      shaped = await delayedSession(key, shaped);
+    if (!shaped)
+      return void res.status(404).json({ error: "Session not found" });
+    // bindings and referees are for the owner and referees only
+    let staff = null;
+    if (viewer?.id) {
+      const q = await pool.query(
+        `SELECT owner_user_id, referees, blue_user_id, red_user_id
+           FROM zzz_draft_sessions
+          WHERE session_key = $1::text`,
+        [key]
+      );
+      if (q.rows.length) staff = staffOnlyFields(q.rows[0], viewer.id);
+    }
+    res.json({ ...shaped, ...staff, presence: presenceOf(key) });
   } catch (e) {
     console.error(e);
     res.status(500).json({ error: "Failed to load session" });
@@ -605,7 +1070,7 @@ router.get(
         mode: r.mode,
         team1: r.team1,
         team2: r.team2,
-        state: r.state,
+        state: hideBlindSubmissions(r.state),
         completedAt: r.completed_at,
         lastActivityAt: r.last_activity_at,
         costProfileId: r.cost_profile_id || null,
@@ -622,6 +1087,16 @@ router.get(
 );
 
 /* ───────────────── LIVE drafts (public) ───────────────── */
+/** The public list is an anonymous view: delayed sessions show their delayed state */
+async function listedState(r: any) {
+  const delay = Number(r.spectator_delay_seconds || 0);
+  if (!delay) return hideBlindSubmissions(r.state);
+  return (
+    hub.delayedView(r.session_key)?.state ??
+    hideBlindSubmissions(await stateAsOf(r.session_key, r.state, delay))
+  );
+}
+
 router.get(
   "/api/zzz/matches/live",
   async (req, res): Promise<void> => {
@@ -634,6 +1109,9 @@ router.get(
     const minutes =
       Number.isFinite(rawMinutes) && rawMinutes > 0 ? rawMinutes : 120;
 
+    // ?sort=viewers ranks by open streams (this instance) instead of recency
+    const byViewers = req.query.sort === "viewers";
+
     try {
       const { rows } = await pool.query(
         `
@@ -646,27 +1124,36 @@ router.get(
           last_activity_at,
           cost_profile_id,
           cost_limit,
-          penalty_per_point
+          penalty_per_point,
+          spectator_delay_seconds
         FROM zzz_draft_sessions
         WHERE is_complete IS NOT TRUE
+          AND lifecycle IS NULL
           AND last_activity_at >= now() - ($2::int * INTERVAL '1 minute')
         ORDER BY last_activity_at DESC
         LIMIT $1::int
         `,
-        [limit, minutes]
+        [byViewers ? 100 : limit, minutes]
       );
 
-      const data = rows.map((r) => ({
-        key: r.session_key,
-        mode: r.mode,
-        team1: r.team1,
-        team2: r.team2,
-        state: r.state,
-        lastActivityAt: r.last_activity_at,
-        costProfileId: r.cost_profile_id || null,
-        costLimit: Number(r.cost_limit),
-        penaltyPerPoint: r.penalty_per_point,
-      }));
+      const data = await Promise.all(
+        rows.map(async (r) => ({
+          key: r.session_key,
+          mode: r.mode,
+          team1: r.team1,
+          team2: r.team2,
+          state: await listedState(r),
+          lastActivityAt: r.last_activity_at,
+          costProfileId: r.cost_profile_id || null,
+          costLimit: Number(r.cost_limit),
+          penaltyPerPoint: r.penalty_per_point,
+          viewers: presenceOf(r.session_key).viewers,
+        }))
+      );
+      if (byViewers) {
+        data.sort((x, y) => y.viewers - x.viewers);
+        data.splice(limit);
+      }
       res.set("Cache-Control", "public, max-age=10");
       res.json({ data });
     } catch (e) {
@@ -676,7 +1163,18 @@ router.get(
   }
 );
 
-/* ───────────────── SSE stream (public) ───────────────── */
+/* ───────────────── SSE stream (public) ─────────────────
+   ?pt=<player token> keeps captains on the live channel when the session
+   has a spectatorDelaySeconds broadcast delay.
+   Events carry ids; a reconnect with Last-Event-ID (header, or ?lastEventId=)
+   gets the missed events replayed, or a fresh snapshot when they are no
+   longer buffered.
+   ?delta=1 swaps full `update` events for `patch` { base, rev, ops } (JSON
+   Patch against the snapshot / previous patch with revision `base`; the
+   snapshot carries `rev`). A client whose revision doesn't match `base`
+   reconnects with ?resync=1 for a fresh snapshot. Delayed viewers always
+   get full updates.
+*/
 router.get("/api/zzz/sessions/:key/stream", async (req, res) => {
   const { key } = req.params as { key: string };
 
@@ -686,322 +1184,601 @@ router.get("/api/zzz/sessions/:key/stream", async (req, res) => {
   res.setHeader("X-Accel-Buffering", "no");
   (res as any).flushHeaders?.();
 
-  const { rows } = await pool.query(
-    `SELECT
-        s.mode, s.team1, s.team2, s.state, s.featured, s.is_complete,
-        s.last_activity_at, s.completed_at, s.cost_profile_id,
-        s.cost_limit, s.penalty_per_point,
-        cp.name AS cp_name, cp.char_ms AS cp_char_ms, cp.we_phase AS cp_we_phase
-     FROM zzz_draft_sessions s
-     LEFT JOIN zzz_cost_presets cp ON cp.id = s.cost_profile_id
-    WHERE s.session_key = $1::text`,
-    [key]
-  );
-
-  if (rows.length === 0) {
-    res.write("event: not_found\ndata: {}\n\n");
-    res.end();
-    return;
-  }
-
-  addClient(key, res);
-  res.write(`event: snapshot\ndata: ${JSON.stringify(shapeSessionRow(rows[0]))}\n\n`);
+  const viewer = (req as any).user as { id?: string } | undefined;
+  const found = await hub.openStream(key, res, {
+    pt: String(req.query.pt || ""),
+    viewerId: viewer?.id,
+    delta: req.query.delta === "1",
+    lastEventId:
+      req.query.resync === "1" ? "" : String(req.get("Last-Event-ID") || req.query.lastEventId || ""),
+  });
+  if (!found) return void res.end();
 
   const ping = setInterval(() => res.write(": keep-alive\n\n"), 25_000);
   req.on("close", () => clearInterval(ping));
 });
 
+/* ───────────────── WebSocket transport (captains) ─────────────────
+   GET /api/zzz/sessions/:key/ws (upgrade; routed from index.ts), see draftHub.
+*/
+export const handleZzzSocket = hub.handleSocket;
+
 /** Resolve which side a player token belongs to */
 router.get(
   "/api/zzz/sessions/:key/resolve-token",
   async (req, res): Promise<void> => {
     const { key } = req.params as { key: string };
     const pt = String(req.query.pt || "");
+    const viewerId = ((req as any).user as { id?: string } | undefined)?.id;
 
-    if (!pt) {
+    if (!pt && !viewerId) {
       res.status(400).json({ error: "Missing pt" });
       return;
     }
 
     const q = await pool.query(
-      `SELECT blue_token, red_token FROM zzz_draft_sessions WHERE session_key = $1::text`,
+      `SELECT blue_token, red_token, blue_user_id, red_user_id, participants
+         FROM zzz_draft_sessions WHERE session_key = $1::text`,
       [key]
     );
     if (q.rows.length === 0) {
       res.status(404).json({ error: "Session not found" });
       return;
     }
-    const row = q.rows[0];
-    if (row.blue_token === pt) return void res.json({ side: "B" });
-    if (row.red_token === pt) return void res.json({ side: "R" });
+    const auth = resolvePlayerSide(q.rows[0], pt, viewerId);
+    if (auth.side) {
+      return void res.json({
+        side: auth.side,
+        participantId: auth.participant?.id ?? null,
+        name: auth.participant?.name ?? null,
+        captain: auth.captain,
+      });
+    }
 
-    res.status(403).json({ error: "Invalid player token" });
+    res.status(403).json({ error: auth.error });
   }
 );
 
 /* ───────────────── PLAYER ACTIONS (public) ─────────────────
 Body: {
-  op: 'pick'|'ban'|'setMindscape'|'setSuperimpose'|'setWengine'|'setLock'|'undoLast',
-  pt: string,
+  op: 'pick'|'ban'|'setMindscape'|'setSuperimpose'|'setWengine'|'setLock'|'undoLast'
+      |'reportScore'|'confirmScore',   // 'ban' on a BX/RX slot = hidden blind-ban submission
+  pt?: string,               // optional when logged in as the side's bound account
   index?: number,
   characterCode?: string,
   eidolon?: number,
   superimpose?: number,
   wengineId?: string|null,
-  locked?: boolean
+  locked?: boolean,
+  blueScores?: number[],     // reportScore: both sides' scores as this captain saw them
+  redScores?: number[],
+  expectedVersion?: number   // 409 + current snapshot when stale
 }
 */
 router.post(
   "/api/zzz/sessions/:key/actions",
   async (req, res): Promise<void> => {
-    const { key } = req.params as { key: string };
-    const { op, pt, index, characterCode, eidolon, superimpose, wengineId } =
-      req.body || {};
+    const viewerId = ((req as any).user as { id?: string } | undefined)?.id;
+    await applyAction(String(req.params.key), req.body, viewerId, res);
+  }
+);
+
+/** The actions handler proper; the WebSocket transport goes through it too, so both answer alike */
+async function applyAction(
+  key: string,
+  body: any,
+  viewerId: string | undefined,
+  res: ActionReply
+): Promise<void> {
+  const { op, pt, index, characterCode, eidolon, superimpose, wengineId } =
+    body || {};
+
+  // a bound captain may act with their login instead of the pt link
+  if ((!pt || typeof pt !== "string") && !viewerId) {
+    return void res.status(400).json({ error: "Missing pt" });
+  }
+
+  try {
+    const q = await pool.query(
+      `SELECT mode, team1, team2, state, featured, is_complete, blue_token, red_token,
+              blue_user_id, red_user_id, participants, participant_rules, state_version, result,
+              lifecycle
+         FROM zzz_draft_sessions
+        WHERE session_key = $1::text`,
+      [key]
+    );
+    if (q.rows.length === 0)
+      return void res.status(404).json({ error: "Session not found" });
 
-    if (!pt || typeof pt !== "string") {
-      return void res.status(400).json({ error: "Missing pt" });
+    const row = q.rows[0];
+    if (row.lifecycle) return void res.status(409).json({ error: `Session ${row.lifecycle}` });
+    // scores are reported after the draft, so only they get past completion
+    const isScoreOp = op === "reportScore" || op === "confirmScore";
+    if (row.is_complete === true && !isScoreOp)
+      return void res.status(409).json({ error: "Draft already completed" });
+    if (isScoreOp && row.result)
+      return void res.status(409).json({ error: "Result already final" });
+
+    const auth = resolvePlayerSide(row, typeof pt === "string" ? pt : null, viewerId);
+    if (!auth.side) return void res.status(403).json({ error: auth.error });
+    const playerSide = auth.side;
+    const participantId = auth.participant?.id ?? null;
+    const { captainOnly } = sanitizeParticipantRules(row.participant_rules);
+    if (!auth.captain && captainOnly.includes(op)) {
+      const what = op === "setLock" ? "lock" : op;
+      return void res.status(403).json({ error: `Only the captain may ${what}` });
     }
 
-    try {
-      const q = await pool.query(
-        `SELECT mode, team1, team2, state, featured, is_complete, blue_token, red_token
-           FROM zzz_draft_sessions
-          WHERE session_key = $1::text`,
-        [key]
-      );
-      if (q.rows.length === 0)
-        return void res.status(404).json({ error: "Session not found" });
+    const expectedVersion = parseExpectedVersion(body?.expectedVersion);
+    if (Number.isNaN(expectedVersion))
+      return void res.status(400).json({ error: "Invalid expectedVersion" });
+    const readVersion = Number(row.state_version ?? 0);
+    if (expectedVersion !== null && expectedVersion !== readVersion)
+      return void (await sendStale(res, key));
 
-      const row = q.rows[0];
-      if (row.is_complete === true)
-        return void res.status(409).json({ error: "Draft already completed" });
+    if (!isValidState(row.state))
+      return void res.status(500).json({ error: "Corrupt state" });
 
-      const playerSide: "B" | "R" | null =
-        row.blue_token === pt ? "B" : row.red_token === pt ? "R" : null;
-      if (!playerSide)
-        return void res.status(403).json({ error: "Invalid player token" });
+    // authoritative burn to *now* before applying any changes
+    const now = Date.now();
+    let state = burnToNow(row.state, now) as SpectatorState;
 
-      const state = row.state as SpectatorState;
-      if (!isValidState(state))
-        return void res.status(500).json({ error: "Corrupt state" });
+    // the clock ran out before this action arrived: the policy wins
+    if (isTurnTimedOut(state) && sanitizeTimeoutPolicy(state.timeoutPolicy) !== "none") {
+      await resolveTimeout(key);
+      return void res.status(409).json({ error: "Turn timed out" });
+    }
 
-      // ---- Featured (sanitized & narrowed) ----
-      const featuredList = sanitizeFeatured(row.featured);
-      const characterGlobalBan = new Set(
-        featuredList
-          .filter(isChar)
-          .filter((f) => f.rule === "globalBan")
-          .map((f) => f.code)
-      );
-      const characterGlobalPick = new Set(
-        featuredList
-          .filter(isChar)
-          .filter((f) => f.rule === "globalPick")
-          .map((f) => f.code)
-      );
-      // W-Engines: only 'globalBan' is honored server-side
-      const wengineGlobalBan = new Set(
-        featuredList
-          .filter(isWE)
-          .filter((f) => f.rule === "globalBan")
-          .map((f) => String(f.id))
-      );
+    // ---- Featured (sanitized & narrowed) ----
+    const featuredList = sanitizeFeatured(row.featured);
+    const characterGlobalBan = new Set(
+      featuredList
+        .filter(isChar)
+        .filter((f) => f.rule === "globalBan")
+        .map((f) => f.code)
+    );
+    const characterGlobalPick = new Set(
+      featuredList
+        .filter(isChar)
+        .filter((f) => f.rule === "globalPick")
+        .map((f) => f.code)
+    );
+    // W-Engines: only 'globalBan' is honored server-side
+    const wengineGlobalBan = new Set(
+      featuredList
+        .filter(isWE)
+        .filter((f) => f.rule === "globalBan")
+        .map((f) => String(f.id))
+    );
 
-      const opNeedsIndex = new Set([
-        "pick",
-        "ban",
-        "setMindscape",
-        "setSuperimpose",
-        "setWengine",
-      ]).has(op);
-
-      if (opNeedsIndex) {
-        if (!Number.isInteger(index) || (index as number) < 0) {
-          return void res.status(400).json({ error: "Invalid index" });
-        }
-        if ((index as number) >= state.draftSequence.length) {
-          return void res.status(400).json({ error: "Index out of range" });
-        }
+    const opNeedsIndex = new Set([
+      "pick",
+      "ban",
+      "setMindscape",
+      "setSuperimpose",
+      "setWengine",
+    ]).has(op);
+
+    if (opNeedsIndex) {
+      if (!Number.isInteger(index) || (index as number) < 0) {
+        return void res.status(400).json({ error: "Invalid index" });
+      }
+      if ((index as number) >= state.draftSequence.length) {
+        return void res.status(400).json({ error: "Index out of range" });
       }
+    }
 
-      const tokenAtIndex = opNeedsIndex
-        ? state.draftSequence[index as number]
-        : "";
-      const slotSide = opNeedsIndex ? sideOfToken(tokenAtIndex) : "";
-      const isBan = opNeedsIndex ? isBanToken(tokenAtIndex) : false;
-
-      if (op === "pick") {
-        if (sideLocked(state, playerSide))
-          return void res.status(409).json({ error: "Side locked" });
-        if (index !== state.currentTurn)
-          return void res.status(409).json({ error: "Not current turn" });
-        if (isBan)
-          return void res.status(400).json({ error: "Cannot pick on ban slot" });
-        if (slotSide !== playerSide)
-          return void res.status(403).json({ error: "Wrong side for this turn" });
-        if (typeof characterCode !== "string" || !characterCode) {
-          return void res.status(400).json({ error: "Missing characterCode" });
-        }
+    const tokenAtIndex = opNeedsIndex
+      ? state.draftSequence[index as number]
+      : "";
+    const slotSide = opNeedsIndex ? sideOfToken(tokenAtIndex) : "";
+    const isBan = opNeedsIndex ? isBanToken(tokenAtIndex) : false;
+
+    // what actually got applied, for the action log
+    let logPayload: any = {};
+    let logOp: string = op;
+    let blindReveal: BlindReveal | null = null;
+
+    if (op === "pick") {
+      if (sideLocked(state, playerSide))
+        return void res.status(409).json({ error: "Side locked" });
+      if (index !== state.currentTurn)
+        return void res.status(409).json({ error: "Not current turn" });
+      if (isBan)
+        return void res.status(400).json({ error: "Cannot pick on ban slot" });
+      if (slotSide !== playerSide)
+        return void res.status(403).json({ error: "Wrong side for this turn" });
+      if (typeof characterCode !== "string" || !characterCode) {
+        return void res.status(400).json({ error: "Missing characterCode" });
+      }
 
-        // Character: global ban
-        if (characterGlobalBan.has(characterCode)) {
-          return void res
-            .status(409)
-            .json({ error: "Character is globally banned" });
-        }
+      // Character: global ban
+      if (characterGlobalBan.has(characterCode)) {
+        return void res
+          .status(409)
+          .json({ error: "Character is globally banned" });
+      }
+      if (state.sideBans?.[playerSide]?.includes(characterCode)) {
+        return void res
+          .status(409)
+          .json({ error: "Character is banned for this side" });
+      }
 
-        // Unique per side (even if globalPick)
-        const mySideCodes = state.picks
-          .map<string | null>((p, i) =>
-            state.draftSequence[i]?.startsWith(playerSide)
-              ? p
-                ? p.characterCode
-                : null
+      // Unique per side (even if globalPick)
+      const mySideCodes = state.picks
+        .map<string | null>((p, i) =>
+          state.draftSequence[i]?.startsWith(playerSide)
+            ? p
+              ? p.characterCode
               : null
-          )
-          .filter((v): v is string => typeof v === "string");
+            : null
+        )
+        .filter((v): v is string => typeof v === "string");
+
+      if (mySideCodes.includes(characterCode)) {
+        return void res
+          .status(409)
+          .json({ error: "Character already picked by this side" });
+      }
 
-        if (mySideCodes.includes(characterCode)) {
-          return void res
-            .status(409)
-            .json({ error: "Character already picked by this side" });
-        }
+      state.picks[index as number] = {
+        characterCode,
+        eidolon: 0,
+        wengineId: null,
+        superimpose: 1,
+      };
+      logPayload = { index, characterCode };
+      state.currentTurn = Math.min(
+        state.currentTurn + 1,
+        state.draftSequence.length
+      );
+      state = resetGraceForNewTurn(state, now);
+    } else if (op === "ban") {
+      if (sideLocked(state, playerSide))
+        return void res.status(409).json({ error: "Side locked" });
+      // a blind phase opens both slots of its pair at once
+      const blind = isBlindTok(state.draftSequence[state.currentTurn] || "");
+      const inPair = blind && index === state.currentTurn + 1 && isBlindTok(tokenAtIndex);
+      if (index !== state.currentTurn && !inPair)
+        return void res.status(409).json({ error: "Not current turn" });
+      if (!isBan) return void res.status(400).json({ error: "Not a ban slot" });
+      if (slotSide !== playerSide)
+        return void res.status(403).json({ error: "Wrong side for this turn" });
+      if (typeof characterCode !== "string" || !characterCode) {
+        return void res.status(400).json({ error: "Missing characterCode" });
+      }
 
-        state.picks[index as number] = {
-          characterCode,
-          eidolon: 0,
-          wengineId: null,
-          superimpose: 1,
-        };
-        state.currentTurn = Math.min(
-          state.currentTurn + 1,
-          state.draftSequence.length
-        );
-      } else if (op === "ban") {
-        if (sideLocked(state, playerSide))
-          return void res.status(409).json({ error: "Side locked" });
-        if (index !== state.currentTurn)
-          return void res.status(409).json({ error: "Not current turn" });
-        if (!isBan) return void res.status(400).json({ error: "Not a ban slot" });
-        if (slotSide !== playerSide)
-          return void res.status(403).json({ error: "Wrong side for this turn" });
-        if (typeof characterCode !== "string" || !characterCode) {
-          return void res.status(400).json({ error: "Missing characterCode" });
-        }
+      // Cannot ban global-pick characters
+      if (characterGlobalPick.has(characterCode)) {
+        return void res.status(409).json({
+          error: "Cannot ban: character is globally allowed (globalPick)",
+        });
+      }
 
-        // Cannot ban global-pick characters
-        if (characterGlobalPick.has(characterCode)) {
-          return void res.status(409).json({
-            error: "Cannot ban: character is globally allowed (globalPick)",
-          });
+      if (blind) {
+        const pending = state.blindPending?.index === state.currentTurn ? state.blindPending : null;
+        if (pending?.[playerSide] !== undefined)
+          return void res.status(409).json({ error: "Blind ban already submitted" });
+
+        // the code stays out of the log until the reveal
+        logOp = "blindBan";
+        logPayload = { index };
+        blindReveal = submitBlindBan(state, playerSide, characterCode, "wengineId");
+        if (blindReveal) {
+          state = resetGraceForNewTurn(state, now);
+          logPayload = { index, reveal: blindReveal };
         }
-
+      } else {
         state.picks[index as number] = {
           characterCode,
           eidolon: 0,
           wengineId: null,
           superimpose: 1,
         };
+        logPayload = { index, characterCode };
         state.currentTurn = Math.min(
           state.currentTurn + 1,
           state.draftSequence.length
         );
-      } else if (op === "setMindscape") {
-        if (sideLocked(state, playerSide))
-          return void res.status(409).json({ error: "Side locked" });
-        if (slotSide !== playerSide || isBan)
-          return void res
-            .status(403)
-            .json({ error: "Cannot edit opponent or ban slot" });
-        const slot = state.picks[index as number];
-        if (!slot) return void res.status(409).json({ error: "No character in slot" });
-        slot.eidolon = Math.max(0, Math.min(6, Number(eidolon ?? 0)));
-      } else if (op === "setSuperimpose") {
-        if (sideLocked(state, playerSide))
-          return void res.status(409).json({ error: "Side locked" });
-        if (slotSide !== playerSide || isBan)
-          return void res
-            .status(403)
-            .json({ error: "Cannot edit opponent or ban slot" });
-        const slot = state.picks[index as number];
-        if (!slot) return void res.status(409).json({ error: "No character in slot" });
-        slot.superimpose = Math.max(1, Math.min(5, Number(superimpose ?? 1)));
-      } else if (op === "setWengine") {
-        if (sideLocked(state, playerSide))
-          return void res.status(409).json({ error: "Side locked" });
-        if (slotSide !== playerSide || isBan)
-          return void res
-            .status(403)
-            .json({ error: "Cannot edit opponent or ban slot" });
-        const slot = state.picks[index as number];
-        if (!slot) return void res.status(409).json({ error: "No character in slot" });
-
-        // 🔒 Enforce universal ban for W-Engines
-        if (wengineId != null && String(wengineId) !== "") {
-          if (wengineGlobalBan.has(String(wengineId))) {
-            return void res
-              .status(409)
-              .json({ error: "W-Engine is globally banned" });
-          }
-        }
-
-        slot.wengineId =
-          wengineId == null || String(wengineId) === ""
-            ? null
-            : String(wengineId);
-      } else if (op === "setLock") {
-        const { locked } = req.body || {};
-        if (typeof locked !== "boolean")
-          return void res.status(400).json({ error: "Missing 'locked' boolean" });
-        if (locked === false)
-          return void res.status(403).json({ error: "Unlock not allowed here" });
-        if (state.currentTurn < state.draftSequence.length) {
-          return void res.status(409).json({ error: "Draft not complete" });
-        }
-        if (playerSide === "B") state.blueLocked = true;
-        else state.redLocked = true;
-      } else if (op === "undoLast") {
-        const lastIdx = state.currentTurn - 1;
-        if (lastIdx < 0)
-          return void res.status(409).json({ error: "Nothing to undo" });
-
-        if (Number.isInteger(index) && index !== lastIdx) {
+        state = resetGraceForNewTurn(state, now);
+      }
+    } else if (op === "setMindscape") {
+      if (sideLocked(state, playerSide))
+        return void res.status(409).json({ error: "Side locked" });
+      if (slotSide !== playerSide || isBan)
+        return void res
+          .status(403)
+          .json({ error: "Cannot edit opponent or ban slot" });
+      const slot = state.picks[index as number];
+      if (!slot) return void res.status(409).json({ error: "No character in slot" });
+      slot.eidolon = Math.max(0, Math.min(6, Number(eidolon ?? 0)));
+      logPayload = { index, eidolon: slot.eidolon };
+    } else if (op === "setSuperimpose") {
+      if (sideLocked(state, playerSide))
+        return void res.status(409).json({ error: "Side locked" });
+      if (slotSide !== playerSide || isBan)
+        return void res
+          .status(403)
+          .json({ error: "Cannot edit opponent or ban slot" });
+      const slot = state.picks[index as number];
+      if (!slot) return void res.status(409).json({ error: "No character in slot" });
+      slot.superimpose = Math.max(1, Math.min(5, Number(superimpose ?? 1)));
+      logPayload = { index, superimpose: slot.superimpose };
+    } else if (op === "setWengine") {
+      if (sideLocked(state, playerSide))
+        return void res.status(409).json({ error: "Side locked" });
+      if (slotSide !== playerSide || isBan)
+        return void res
+          .status(403)
+          .json({ error: "Cannot edit opponent or ban slot" });
+      const slot = state.picks[index as number];
+      if (!slot) return void res.status(409).json({ error: "No character in slot" });
+
+      // 🔒 Enforce universal ban for W-Engines
+      if (wengineId != null && String(wengineId) !== "") {
+        if (wengineGlobalBan.has(String(wengineId))) {
           return void res
-            .status(400)
-            .json({ error: "Index must equal last turn" });
+            .status(409)
+            .json({ error: "W-Engine is globally banned" });
         }
+      }
 
-        if (sideLocked(state, playerSide))
-          return void res.status(409).json({ error: "Side locked" });
+      slot.wengineId =
+        wengineId == null || String(wengineId) === ""
+          ? null
+          : String(wengineId);
+      logPayload = { index, wengineId: slot.wengineId };
+    } else if (op === "setLock") {
+      const { locked } = body || {};
+      if (typeof locked !== "boolean")
+        return void res.status(400).json({ error: "Missing 'locked' boolean" });
+      if (locked === false)
+        return void res.status(403).json({ error: "Unlock not allowed here" });
+      if (state.currentTurn < state.draftSequence.length) {
+        return void res.status(409).json({ error: "Draft not complete" });
+      }
+      if (playerSide === "B") state.blueLocked = true;
+      else state.redLocked = true;
+      logPayload = { locked: true };
+    } else if (op === "undoLast") {
+      const lastIdx = state.currentTurn - 1;
+      if (lastIdx < 0)
+        return void res.status(409).json({ error: "Nothing to undo" });
+
+      if (Number.isInteger(index) && index !== lastIdx) {
+        return void res
+          .status(400)
+          .json({ error: "Index must equal last turn" });
+      }
 
-        const lastTok = state.draftSequence[lastIdx];
-        const lastSide = sideOfToken(lastTok);
-        if (lastSide !== playerSide)
-          return void res.status(403).json({ error: "Wrong side for undo" });
+      if (sideLocked(state, playerSide))
+        return void res.status(409).json({ error: "Side locked" });
+
+      const lastTok = state.draftSequence[lastIdx];
+      if (isBlindTok(lastTok))
+        return void res.status(409).json({ error: "Blind bans cannot be undone" });
+      const lastSide = sideOfTok(lastTok);
+      if (lastSide !== playerSide)
+        return void res.status(403).json({ error: "Wrong side for undo" });
+
+      if (!state.picks[lastIdx])
+        return void res.status(409).json({ error: "Slot already empty" });
+      state.picks[lastIdx] = null;
+      state.currentTurn = lastIdx;
+      delete state.blindPending;
+      logPayload = { index: lastIdx };
+      // after jumping back, give fresh grace for whoever is now active
+      state = resetGraceForNewTurn(state, now);
+    } else if (isScoreOp) {
+      const out =
+        op === "reportScore"
+          ? applyScoreReport(state, playerSide, body, now)
+          : applyScoreConfirm(state, playerSide, now);
+      if (!out.ok) return void res.status(out.status).json({ error: out.error });
+      logPayload = out.logPayload;
+    } else {
+      return void res.status(400).json({ error: "Invalid op" });
+    }
 
-        if (!state.picks[lastIdx])
-          return void res.status(409).json({ error: "Slot already empty" });
-        state.picks[lastIdx] = null;
-        state.currentTurn = lastIdx;
-      } else {
-        return void res.status(400).json({ error: "Invalid op" });
-      }
+    // both captains agree → store the final, penalty-adjusted result
+    let result: DraftResult | null = null;
+    if (isScoreOp && state.scoreStatus === "confirmed") {
+      const agreed = state.scoreReports![playerSide]!;
+      state.blueScores = agreed.blueScores;
+      state.redScores = agreed.redScores;
+      result = computeResult(
+        "zzz",
+        agreed.blueScores,
+        agreed.redScores,
+        await loadPenalties(key),
+        "confirmed"
+      );
+    }
 
-      const upd = await pool.query(
-        `UPDATE zzz_draft_sessions
+    // state write + log append in one statement, so the log never drifts.
+    // The version guard makes a concurrent writer lose instead of overwrite.
+    const upd = await pool.query(
+      `WITH upd AS (
+         UPDATE zzz_draft_sessions
             SET state = $2::jsonb,
+                state_version = state_version + 1,
+                result = COALESCE($8::jsonb, result),
+                is_complete = CASE WHEN $8::jsonb IS NOT NULL THEN TRUE ELSE is_complete END,
+                completed_at = CASE WHEN $8::jsonb IS NOT NULL AND completed_at IS NULL THEN now() ELSE completed_at END,
                 last_activity_at = now()
           WHERE session_key = $1::text
-          RETURNING mode, team1, team2, state, featured, is_complete, last_activity_at, completed_at,
-                    cost_profile_id, cost_limit, penalty_per_point`,
-        [key, JSON.stringify(state)]
+            AND state_version = $7::int
+          RETURNING session_key
+       )
+       INSERT INTO zzz_draft_actions (session_key, op, side, payload, turn_after, participant_id)
+       SELECT session_key, $3::text, $4::text, $5::jsonb, $6::int, $9::text FROM upd
+       RETURNING id`,
+      [
+        key,
+        JSON.stringify(state),
+        logOp,
+        playerSide,
+        JSON.stringify(logPayload),
+        state.currentTurn,
+        readVersion,
+        result ? JSON.stringify(result) : null,
+        participantId,
+      ]
+    );
+
+    if (!upd.rows.length) return void (await sendStale(res, key));
+    await snapshotAndPush(key);
+    if (blindReveal) push(key, "blindReveal", blindReveal);
+    await announce(key, logOp, playerSide, logPayload);
+    if (result) emitDraftResult({ game: "zzz", key });
+    res.json({ ok: true, version: readVersion + 1 });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to apply action" });
+  }
+}
+
+/* ───────────────── ADMIN: resolve a disputed score ─────────────────
+Body: { blueScores: number[], redScores: number[] }  (the final numbers)
+*/
+router.post(
+  "/api/zzz/sessions/:key/score/resolve",
+  requireAdmin,
+  async (req, res): Promise<void> => {
+    const admin = (req as any).user as { id: string };
+    const { key } = req.params as { key: string };
+
+    try {
+      const q = await pool.query(
+        `SELECT state, state_version, result
+           FROM zzz_draft_sessions
+          WHERE session_key = $1::text`,
+        [key]
+      );
+      if (!q.rows.length)
+        return void res.status(404).json({ error: "Session not found" });
+
+      const row = q.rows[0];
+      if (row.result)
+        return void res.status(409).json({ error: "Result already final" });
+      const st = row.state as SpectatorState;
+      if (st.scoreStatus !== "disputed")
+        return void res.status(409).json({ error: "No open dispute" });
+
+      const len = st.blueScores.length;
+      const blueScores = sanitizeScores(req.body?.blueScores, len);
+      const redScores = sanitizeScores(req.body?.redScores, len);
+      if (!blueScores || !redScores)
+        return void res.status(400).json({ error: "Invalid scores" });
+
+      st.blueScores = blueScores;
+      st.redScores = redScores;
+      st.scoreStatus = "resolved";
+      const result = computeResult(
+        "zzz",
+        blueScores,
+        redScores,
+        await loadPenalties(key),
+        "admin"
       );
 
-      if (upd.rows.length) await snapshotAndPush(key);
-      res.json({ ok: true });
+      const upd = await pool.query(
+        `WITH upd AS (
+           UPDATE zzz_draft_sessions
+              SET state = $2::jsonb,
+                  state_version = state_version + 1,
+                  result = $5::jsonb,
+                  is_complete = TRUE,
+                  completed_at = COALESCE(completed_at, now()),
+                  last_activity_at = now()
+            WHERE session_key = $1::text
+              AND state_version = $4::int
+            RETURNING session_key
+         )
+         INSERT INTO zzz_draft_actions (session_key, op, side, payload, turn_after)
+         SELECT session_key, 'resolveScore', NULL, $3::jsonb, $6::int FROM upd
+         RETURNING id`,
+        [
+          key,
+          JSON.stringify(st),
+          JSON.stringify({ blueScores, redScores, status: "resolved", by: admin.id }),
+          Number(row.state_version ?? 0),
+          JSON.stringify(result),
+          st.currentTurn,
+        ]
+      );
+      if (!upd.rows.length) return void (await sendStale(res, key));
+
+      await snapshotAndPush(key);
+      emitDraftResult({ game: "zzz", key });
+      res.json({ ok: true, result });
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: "Failed to resolve score" });
+    }
+  }
+);
+
+/* ───────────────── Action timeline + replay (public) ─────────────────
+   ?turn=N → also rebuild the state as it stood at turn N
+   ?seq=N  → also rebuild the state right after action N
+   With a broadcast delay, anyone but captains / the owner (?pt or login, as
+   for the stream) only gets the actions older than spectatorDelaySeconds.
+*/
+router.get(
+  "/api/zzz/sessions/:key/timeline",
+  async (req, res): Promise<void> => {
+    const { key } = req.params as { key: string };
+    const viewer = (req as any).user as { id?: string } | undefined;
+
+    const hasTurn = req.query.turn !== undefined;
+    const hasSeq = req.query.seq !== undefined;
+    const uptoTurn = hasTurn ? Number(req.query.turn) : undefined;
+    const uptoSeq = hasSeq ? Number(req.query.seq) : undefined;
+    if (hasTurn && (!Number.isInteger(uptoTurn) || uptoTurn! < 0))
+      return void res.status(400).json({ error: "Invalid turn" });
+    if (hasSeq && (!Number.isInteger(uptoSeq) || uptoSeq! < 0))
+      return void res.status(400).json({ error: "Invalid seq" });
+
+    try {
+      const sess = await pool.query(
+        `SELECT mode, state, spectator_delay_seconds
+           FROM zzz_draft_sessions
+          WHERE session_key = $1::text`,
+        [key]
+      );
+      if (!sess.rows.length)
+        return void res.status(404).json({ error: "Session not found" });
+
+      // viewers off the live channel only see actions older than the broadcast delay
+      const live = await hub.isLiveViewer(key, String(req.query.pt || ""), viewer?.id);
+      const delay = live ? 0 : Number(sess.rows[0].spectator_delay_seconds || 0);
+
+      const { rows } = await pool.query(
+        `SELECT id, op, side, payload, turn_after, participant_id, created_at
+           FROM zzz_draft_actions
+          WHERE session_key = $1::text
+            AND ($2::int = 0 OR created_at <= now() - ($2::int * INTERVAL '1 second'))
+          ORDER BY id ASC`,
+        [key, delay]
+      );
+      const actions = rows.map(shapeLogRow);
+      const out: any = { key, mode: sess.rows[0].mode, actions };
+
+      if (hasTurn || hasSeq) {
+        const { state, appliedThrough } = replayDraft(
+          initialReplayState(actions, sess.rows[0].state),
+          actions,
+          "wengineId",
+          { uptoTurn, uptoSeq }
+        );
+        out.replay = { seq: appliedThrough, state: hideBlindSubmissions(state) };
+      }
+
+      res.json(out);
     } catch (e) {
       console.error(e);
-      res.status(500).json({ error: "Failed to apply action" });
+      res.status(500).json({ error: "Failed to load timeline" });
     }
   }
 );
@@ -1163,6 +1940,400 @@ router.delete("/api/zzz/cost-presets/:id", requireLogin, async (req, res) => {
   }
 });
 
+/* ───────────────── CHAT: history (public) ─────────────────
+Query: ?limit=50&before=<id>
+*/
+router.get("/api/zzz/sessions/:key/chat", async (req, res): Promise<void> => {
+  const { key } = req.params as { key: string };
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+  const before = Number(req.query.before);
+
+  try {
+    const { rows } = await pool.query(
+      `SELECT id, role, side, name, body, created_at
+         FROM zzz_draft_chat
+        WHERE session_key = $1::text
+          AND ($2::bigint IS NULL OR id < $2::bigint)
+        ORDER BY id DESC
+        LIMIT $3::int`,
+      [key, Number.isInteger(before) && before > 0 ? before : null, limit]
+    );
+    res.json({ data: rows.map(shapeChatRow).reverse() });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to load chat" });
+  }
+});
+
+/* ───────────────── CHAT: send ─────────────────
+Body: { body: string, pt?: string }
+Role: a side's token / binding → participant; owner or referee → referee;
+any other logged-in user → spectator. Pushed to viewers as a `chat` event.
+*/
+router.post("/api/zzz/sessions/:key/chat", async (req, res): Promise<void> => {
+  const { key } = req.params as { key: string };
+  const viewer = (req as any).user as
+    | { id?: string; username?: string; global_name?: string | null }
+    | undefined;
+  const viewerId = viewer?.id;
+  const pt = typeof req.body?.pt === "string" ? req.body.pt : "";
+  const body = sanitizeChatBody(req.body?.body);
+
+  if (!body)
+    return void res.status(400).json({ error: `Message must be 1-${MAX_CHAT_LEN} characters` });
+  if (!pt && !viewerId) return void res.status(401).json({ error: "Log in to chat" });
+
+  try {
+    const q = await pool.query(
+      `SELECT team1, team2, owner_user_id, referees, blue_token, red_token,
+              blue_user_id, red_user_id, participants
+         FROM zzz_draft_sessions
+        WHERE session_key = $1::text`,
+      [key]
+    );
+    if (!q.rows.length) return void res.status(404).json({ error: "Session not found" });
+    const row = q.rows[0];
+
+    let role: ChatRole;
+    let side: "B" | "R" | null = null;
+    let name: string;
+
+    const auth = resolvePlayerSide(row, pt || null, viewerId);
+    if (auth.side) {
+      role = "participant";
+      side = auth.side;
+      name = auth.participant?.name || (auth.side === "B" ? row.team1 : row.team2);
+    } else if (pt) {
+      return void res.status(403).json({ error: auth.error });
+    } else {
+      const isRef = row.owner_user_id === viewerId || (row.referees || []).includes(viewerId);
+      role = isRef ? "referee" : "spectator";
+      name = viewer?.global_name || viewer?.username || "Viewer";
+    }
+
+    if (!allowChat(`${key}:${pt || viewerId}`))
+      return void res.status(429).json({ error: "Slow down" });
+
+    res.json(await postChat(key, role, side, name, body));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Failed to send message" });
+  }
+});
+
+/* ───────────────── OWNER: grant / revoke the referee role ─────────────────
+Body: { userId: discordId }
+*/
+router.post(
+  "/api/zzz/sessions/:key/referees",
+  requireLogin,
+  async (req, res): Promise<void> => {
+    const viewer = (req as any).user as { id: string };
+    const { key } = req.params as { key: string };
+    const userId = parseBindUserId(req.body?.userId);
+    if (!userId) return void res.status(400).json({ error: "Invalid userId" });
+
+    try {
+      const q = await pool.query(
+        `UPDATE zzz_draft_sessions
+            SET referees = CASE
+                  WHEN COALESCE(referees, '[]'::jsonb) ? $3::text THEN referees
+                  ELSE COALESCE(referees, '[]'::jsonb) || to_jsonb($3::text)
+                END
+          WHERE session_key = $1::text AND owner_user_id = $2::text
+          RETURNING referees`,
+        [key, viewer.id, userId]
+      );
+      if (!q.rows.length)
+        return void res.status(404).json({ error: "Session not found or not yours" });
+
+      await snapshotAndPush(key);
+      res.json({ referees: q.rows[0].referees });
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: "Failed to add referee" });
+    }
+  }
+);
+
+router.delete(
+  "/api/zzz/sessions/:key/referees/:userId",
+  requireLogin,
+  async (req, res): Promise<void> => {
+    const viewer = (req as any).user as { id: string };
+    const { key, userId } = req.params as { key: string; userId: string };
+
+    try {
+      const q = await pool.query(
+        `UPDATE zzz_draft_sessions
+            SET referees = COALESCE(referees, '[]'::jsonb) - $3::text
+          WHERE session_key = $1::text AND owner_user_id = $2::text
+          RETURNING referees`,
+        [key, viewer.id, userId]
+      );
+      if (!q.rows.length)
+        return void res.status(404).json({ error: "Session not found or not yours" });
+
+      await snapshotAndPush(key);
+      res.json({ referees: q.rows[0].referees });
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: "Failed to remove referee" });
+    }
+  }
+);
+
+/* ───────────────── REFEREE ops (owner or granted referees) ─────────────────
+Body: {
+  op: 'pause'|'resume'|'rewind'|'forceSet'|'unlock',
+  reason: string,              // required, shown to everyone
+  side?: 'B'|'R',              // pause/resume/unlock; omitted = both
+  turn?: number,               // rewind: clear this slot and everything after it
+  index?: number,              // forceSet: slot to fill (≤ current turn)
+  characterCode?: string,      // forceSet
+  expectedVersion?: number
+}
+Audited as an op "referee" snapshot entry and broadcast as a `referee` event.
+*/
+router.post(
+  "/api/zzz/sessions/:key/referee",
+  requireLogin,
+  async (req, res): Promise<void> => {
+    const viewer = (req as any).user as { id: string };
+    const { key } = req.params as { key: string };
+    const op = String(req.body?.op || "");
+    const reason = sanitizeReason(req.body?.reason);
+
+    if (!REFEREE_OPS.has(op)) return void res.status(400).json({ error: "Invalid op" });
+    if (!reason) return void res.status(400).json({ error: "A reason is required" });
+
+    try {
+      const q = await pool.query(
+        `SELECT owner_user_id, referees, state, state_version, is_complete, lifecycle
+           FROM zzz_draft_sessions
+          WHERE session_key = $1::text`,
+        [key]
+      );
+      if (!q.rows.length)
+        return void res.status(404).json({ error: "Session not found" });
+
+      const row = q.rows[0];
+      const isReferee = (row.referees || []).includes(viewer.id);
+      if (row.owner_user_id !== viewer.id && !isReferee)
+        return void res.status(403).json({ error: "Referees only" });
+      if (row.is_complete === true)
+        return void res.status(409).json({ error: "Draft already completed" });
+      if (row.lifecycle)
+        return void res.status(409).json({ error: `Session ${row.lifecycle}` });
+      if (!isValidState(row.state))
+        return void res.status(500).json({ error: "Corrupt state" });
+
+      const expectedVersion = parseExpectedVersion(req.body?.expectedVersion);
+      if (Number.isNaN(expectedVersion))
+        return void res.status(400).json({ error: "Invalid expectedVersion" });
+      const readVersion = Number(row.state_version ?? 0);
+      if (expectedVersion !== null && expectedVersion !== readVersion)
+        return void (await sendStale(res, key));
+
+      const now = Date.now();
+      const burned = burnToNow(row.state, now);
+      const out = applyRefereeOp(burned, op as RefereeOp, req.body, "wengineId", now);
+      if (!out.ok) return void res.status(out.status).json({ error: out.error });
+
+      const audit = { action: op, reason, by: viewer.id, ...out.detail };
+      const upd = await pool.query(
+        `WITH upd AS (
+           UPDATE zzz_draft_sessions
+              SET state = $2::jsonb,
+                  state_version = state_version + 1,
+                  last_activity_at = now()
+            WHERE session_key = $1::text
+              AND state_version = $5::int
+            RETURNING session_key
+         )
+         INSERT INTO zzz_draft_actions (session_key, op, side, payload, turn_after)
+         SELECT session_key, 'referee', NULL, $3::jsonb, $4::int FROM upd
+         RETURNING id`,
+        [
+          key,
+          JSON.stringify(out.state),
+          JSON.stringify(refereeLogPayload(audit, out.state)),
+          out.state.currentTurn,
+          readVersion,
+        ]
+      );
+      if (!upd.rows.length) return void (await sendStale(res, key));
+
+      await snapshotAndPush(key);
+      push(key, "referee", { ...audit, at: new Date(now).toISOString() });
+      await announce(key, "referee", null, audit);
+      res.json({ ok: true, version: readVersion + 1 });
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: "Failed to apply referee op" });
+    }
+  }
+);
+
+/* ───────────────── OWNER: add participants ─────────────────
+Body: { participants: [{ side: 'B'|'R', name, userId?, captain? }], rules?: { captainOnly?: string[] } }
+Returns the new participants with their tokens (owner only).
+*/
+router.post(
+  "/api/zzz/sessions/:key/participants",
+  requireLogin,
+  async (req, res): Promise<void> => {
+    const viewer = (req as any).user as { id: string };
+    const { key } = req.params as { key: string };
+
+    // the list is read-modify-written: lock the row so concurrent edits queue up
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const chk = await client.query(
+        `SELECT owner_user_id, participants
+           FROM zzz_draft_sessions
+          WHERE session_key = $1::text
+          FOR UPDATE`,
+        [key]
+      );
+      const fail = async (status: number, error: string) => {
+        await client.query("ROLLBACK");
+        res.status(status).json({ error });
+      };
+      if (chk.rows.length === 0) return void (await fail(404, "Session not found"));
+      if (chk.rows[0].owner_user_id !== viewer.id) return void (await fail(403, "Forbidden"));
+
+      const existing: Participant[] = chk.rows[0].participants || [];
+      const added = buildParticipants(req.body?.participants ?? [], existing);
+      if (!added) return void (await fail(400, "Invalid participants"));
+
+      const hasRules = req.body?.rules !== undefined;
+      await client.query(
+        `UPDATE zzz_draft_sessions
+            SET participants = $2::jsonb,
+                participant_rules = CASE WHEN $3::boolean THEN $4::jsonb ELSE participant_rules END
+          WHERE session_key = $1::text`,
+        [
+          key,
+          JSON.stringify([...existing, ...added]),
+          hasRules,
+          JSON.stringify(sanitizeParticipantRules(req.body?.rules)),
+        ]
+      );
+      await client.query("COMMIT");
+
+      await snapshotAndPush(key);
+      res.json({ participants: added });
+    } catch (e) {
+      await client.query("ROLLBACK").catch(() => {});
+      console.error(e);
+      res.status(500).json({ error: "Failed to add participants" });
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/* ───────────────── OWNER: remove a participant (their token stops working) ───────────────── */
+router.delete(
+  "/api/zzz/sessions/:key/participants/:id",
+  requireLogin,
+  async (req, res): Promise<void> => {
+    const viewer = (req as any).user as { id: string };
+    const { key, id } = req.params as { key: string; id: string };
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const chk = await client.query(
+        `SELECT owner_user_id, participants
+           FROM zzz_draft_sessions
+          WHERE session_key = $1::text
+          FOR UPDATE`,
+        [key]
+      );
+      const fail = async (status: number, error: string) => {
+        await client.query("ROLLBACK");
+        res.status(status).json({ error });
+      };
+      if (chk.rows.length === 0) return void (await fail(404, "Session not found"));
+      if (chk.rows[0].owner_user_id !== viewer.id) return void (await fail(403, "Forbidden"));
+
+      const existing: Participant[] = chk.rows[0].participants || [];
+      const rest = existing.filter((p) => p.id !== id);
+      if (rest.length === existing.length) return void (await fail(404, "Participant not found"));
+
+      await client.query(
+        `UPDATE zzz_draft_sessions SET participants = $2::jsonb WHERE session_key = $1::text`,
+        [key, JSON.stringify(rest)]
+      );
+      await client.query("COMMIT");
+
+      await snapshotAndPush(key);
+      res.json({ ok: true });
+    } catch (e) {
+      await client.query("ROLLBACK").catch(() => {});
+      console.error(e);
+      res.status(500).json({ error: "Failed to remove participant" });
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/* ───────────────── OWNER: rotate a side's player token ─────────────────
+Body: { side: 'B'|'R', bindUserId?: string|null }   // null unbinds, omitted keeps
+The old link stops working immediately; the new token goes to the owner only.
+*/
+router.post(
+  "/api/zzz/sessions/:key/tokens/rotate",
+  requireLogin,
+  async (req, res): Promise<void> => {
+    const viewer = (req as any).user as { id: string };
+    const { key } = req.params as { key: string };
+    const side = req.body?.side;
+    const hasBind = Object.prototype.hasOwnProperty.call(req.body ?? {}, "bindUserId");
+    const bindUserId = hasBind ? parseBindUserId(req.body.bindUserId) : null;
+
+    if (side !== "B" && side !== "R") {
+      return void res.status(400).json({ error: "Invalid side" });
+    }
+    if (bindUserId === undefined) {
+      return void res.status(400).json({ error: "Invalid bindUserId" });
+    }
+
+    try {
+      const chk = await pool.query(
+        `SELECT owner_user_id FROM zzz_draft_sessions WHERE session_key = $1::text`,
+        [key]
+      );
+      if (chk.rows.length === 0)
+        return void res.status(404).json({ error: "Session not found" });
+      if (chk.rows[0].owner_user_id !== viewer.id)
+        return void res.status(403).json({ error: "Forbidden" });
+
+      const token = genKey(20);
+      const tokenCol = side === "B" ? "blue_token" : "red_token";
+      const userCol = side === "B" ? "blue_user_id" : "red_user_id";
+      const q = await pool.query(
+        `UPDATE zzz_draft_sessions
+            SET ${tokenCol} = $2::text,
+                ${userCol} = CASE WHEN $3::boolean THEN $4::text ELSE ${userCol} END
+          WHERE session_key = $1::text
+          RETURNING ${userCol} AS bound`,
+        [key, token, hasBind, bindUserId]
+      );
+
+      if (hasBind) await snapshotAndPush(key);
+      res.json({ side, token, boundUserId: q.rows[0]?.bound ?? null });
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: "Failed to rotate token" });
+    }
+  }
+);
+
 /* ───────────────── DELETE unfinished session (owner only) ───────────────── */
 router.delete(
   "/api/zzz/sessions/:key",
@@ -1194,11 +2365,19 @@ router.delete(
       }
 
       const del = await pool.query(
-        `DELETE FROM zzz_draft_sessions
-          WHERE session_key = $1::text
-            AND owner_user_id = $2::text
-            AND (is_complete IS NOT TRUE)
-          RETURNING session_key`,
+        // the session, its action log and its chat go in one statement
+        `WITH del AS (
+           DELETE FROM zzz_draft_sessions
+            WHERE session_key = $1::text
+              AND owner_user_id = $2::text
+              AND (is_complete IS NOT TRUE)
+            RETURNING session_key
+         ), actions AS (
+           DELETE FROM zzz_draft_actions WHERE session_key IN (SELECT session_key FROM del)
+         ), chat AS (
+           DELETE FROM zzz_draft_chat WHERE session_key IN (SELECT session_key FROM del)
+         )
+         SELECT session_key FROM del`,
         [key, viewer.id]
       );
 
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  hideBlindSubmissions,
+  keepBlindPending,
+  sanitizeBlindCollision,
+  submitBlindBan,
+} from "./blindBan";
+
+const phase = (extra: any = {}) => ({
+  draftSequence: ["BX", "RX", "B", "R"],
+  currentTurn: 0,
+  picks: [null, null, null, null],
+  ...extra,
+});
+const ban = (code: string) => ({ characterCode: code, eidolon: 0, wengineId: null, superimpose: 1 });
+
+test("nothing is revealed until both sides are in", () => {
+  const st: any = phase();
+  assert.equal(submitBlindBan(st, "R", "ellen", "wengineId"), null);
+  assert.deepEqual(st.blindPending, { index: 0, R: "ellen" });
+  assert.equal(st.currentTurn, 0);
+  assert.deepEqual(st.picks, [null, null, null, null]);
+
+  const reveal = submitBlindBan(st, "B", "miyabi", "wengineId");
+  assert.deepEqual(reveal, { index: 0, blue: "miyabi", red: "ellen", collision: false, outcome: "revealed" });
+  assert.deepEqual(st.picks.slice(0, 2), [ban("miyabi"), ban("ellen")]);
+  assert.equal(st.currentTurn, 2);
+  assert.equal(st.blindPending, undefined);
+});
+
+test("a skipped submission leaves its slot empty", () => {
+  const st: any = phase({ blindPending: { index: 0, B: "" } });
+  const reveal = submitBlindBan(st, "R", "ellen", "wengineId");
+  assert.equal(reveal?.outcome, "revealed");
+  assert.deepEqual(st.picks.slice(0, 2), [null, ban("ellen")]);
+});
+
+test("collisions stand by default and redo the phase when the session says so", () => {
+  const allow: any = phase({ blindPending: { index: 0, B: "ellen" } });
+  assert.equal(submitBlindBan(allow, "R", "ellen", "wengineId")?.outcome, "revealed");
+  assert.equal(allow.currentTurn, 2);
+
+  const redo: any = phase({ blindCollision: "redo", blindPending: { index: 0, B: "ellen" } });
+  const reveal = submitBlindBan(redo, "R", "ellen", "wengineId");
+  assert.deepEqual(reveal, { index: 0, blue: "ellen", red: "ellen", collision: true, outcome: "redo" });
+  assert.equal(redo.currentTurn, 0);
+  assert.deepEqual(redo.picks, [null, null, null, null]);
+  assert.equal(redo.blindPending, undefined);
+
+  // two skips are no collision
+  const skips: any = phase({ blindCollision: "redo", blindPending: { index: 0, B: "" } });
+  assert.equal(submitBlindBan(skips, "R", "", "wengineId")?.outcome, "revealed");
+  assert.equal(sanitizeBlindCollision("whatever"), "allow");
+});
+
+test("a stale pending entry from an earlier phase is not reused", () => {
+  const st: any = phase({ currentTurn: 2, draftSequence: ["BB", "RR", "BX", "RX"], blindPending: { index: 0, B: "x" } });
+  assert.equal(submitBlindBan(st, "R", "ellen", "wengineId"), null);
+  assert.deepEqual(st.blindPending, { index: 2, R: "ellen" });
+});
+
+test("shaped states only say who submitted", () => {
+  const hidden = hideBlindSubmissions(phase({ blindPending: { index: 0, B: "miyabi" } }));
+  assert.equal(hidden.blindPending, undefined);
+  assert.deepEqual(hidden.blindSubmitted, { B: true, R: false });
+  assert.ok(!JSON.stringify(hidden).includes("miyabi"));
+  // stale flags a client sent back are dropped
+  assert.equal(hideBlindSubmissions(phase({ blindSubmitted: { B: true, R: true } })).blindSubmitted, undefined);
+});
+
+test("owner edits keep the stored submissions while the phase is current", () => {
+  const stored = phase({ blindPending: { index: 0, R: "ellen" } });
+  const edit = { ...phase(), blindPending: { index: 0, R: "forged" }, blindSubmitted: { B: true, R: true } };
+  assert.deepEqual(keepBlindPending(edit, stored).blindPending, { index: 0, R: "ellen" });
+  assert.equal(keepBlindPending(edit, stored).blindSubmitted, undefined);
+  assert.equal(keepBlindPending({ ...edit, currentTurn: 2 }, stored).blindPending, undefined);
+});
@@ -0,0 +1,97 @@
+// utils/blindBan.ts
+// Blind simultaneous ban phases ("BX" / "RX" pairs in the draft sequence).
+//
+// Submissions live in state.blindPending until both sides are in, and never
+// leave the server before that: shaped payloads only say *who* submitted.
+
+export type BlindCollisionRule = "allow" | "redo";
+const COLLISION_RULES: ReadonlySet<string> = new Set(["allow", "redo"]);
+
+/**
+ * What happens when both sides blind-ban the same character:
+ *   allow → both bans stand (the character is simply banned twice)
+ *   redo  → both submissions are thrown away and the phase is replayed
+ */
+export function sanitizeBlindCollision(raw: any): BlindCollisionRule {
+  return COLLISION_RULES.has(raw) ? (raw as BlindCollisionRule) : "allow";
+}
+
+/** "" = the side ran out of time under the skip policy: its slot stays empty */
+export type BlindPending = { index: number; B?: string; R?: string };
+
+export type BlindReveal = {
+  index: number;
+  blue: string;
+  red: string;
+  collision: boolean;
+  outcome: "revealed" | "redo";
+};
+
+/** Both submissions in → what gets revealed and whether the phase advances */
+export function revealBlindPhase(
+  pending: BlindPending,
+  rule: BlindCollisionRule
+): BlindReveal {
+  const collision = !!pending.B && pending.B === pending.R;
+  return {
+    index: pending.index,
+    blue: pending.B ?? "",
+    red: pending.R ?? "",
+    collision,
+    outcome: collision && rule === "redo" ? "redo" : "revealed",
+  };
+}
+
+/** Copy of the state that is safe to show anyone: submissions replaced by flags */
+export function hideBlindSubmissions(state: any): any {
+  if (!state || typeof state !== "object") return state;
+  const { blindPending, blindSubmitted: _stale, ...rest } = state;
+  if (!blindPending) return rest;
+  return {
+    ...rest,
+    blindSubmitted: { B: blindPending.B !== undefined, R: blindPending.R !== undefined },
+  };
+}
+
+/**
+ * An owner edit arrives without the hidden submissions (clients never see
+ * them), so carry the stored ones over while the phase is still current.
+ */
+export function keepBlindPending(incoming: any, stored: any): any {
+  const { blindPending: _ignored, blindSubmitted: _flags, ...rest } = incoming || {};
+  const pending = stored?.blindPending;
+  return pending && pending.index === rest.currentTurn
+    ? { ...rest, blindPending: pending }
+    : rest;
+}
+
+/**
+ * Record `side`'s submission for the blind phase on the clock. Once both are
+ * in, the phase is revealed: the pair's slots are filled (an empty code
+ * leaves its slot empty) and the turn moves past the pair, or everything is
+ * thrown away for a redo. Returns the reveal, or null while one side is
+ * still to submit. The caller resets the move grace after a reveal.
+ */
+export function submitBlindBan(
+  st: any,
+  side: "B" | "R",
+  code: string,
+  equipKey: "lightconeId" | "wengineId"
+): BlindReveal | null {
+  const pending: BlindPending =
+    st.blindPending?.index === st.currentTurn ? st.blindPending : { index: st.currentTurn };
+  pending[side] = code;
+  st.blindPending = pending;
+  if (pending.B === undefined || pending.R === undefined) return null;
+
+  const reveal = revealBlindPhase(pending, sanitizeBlindCollision(st.blindCollision));
+  delete st.blindPending;
+  if (reveal.outcome === "revealed") {
+    const ban = (c: string) =>
+      c ? { characterCode: c, eidolon: 0, [equipKey]: null, superimpose: 1 } : null;
+    st.picks[reveal.index] = ban(reveal.blue);
+    st.picks[reveal.index + 1] = ban(reveal.red);
+    st.currentTurn = Math.min(reveal.index + 2, st.draftSequence.length);
+  }
+  return reveal;
+}
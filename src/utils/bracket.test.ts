@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BYE, BracketMatch, buildBracket, champion, recordWinner, seedPositions } from "./bracket";
+
+const byId = (all: BracketMatch[], id: string) => all.find((m) => m.id === id)!;
+
+/** Play every ready match, the better seed (lower number) winning unless `upset` says otherwise */
+function playOut(all: BracketMatch[], upset: (m: BracketMatch) => boolean = () => false) {
+  for (let guard = 0; guard < 100; guard++) {
+    const m = all.find((x) => x.status === "ready");
+    if (!m) return;
+    const [hi, lo] = Number(m.p1!.slice(1)) < Number(m.p2!.slice(1)) ? [m.p1!, m.p2!] : [m.p2!, m.p1!];
+    assert.equal(recordWinner(all, m.id, upset(m) ? lo : hi), null);
+  }
+  assert.fail("bracket did not finish");
+}
+
+const seeds = (n: number) => Array.from({ length: n }, (_, i) => `p${i + 1}`);
+
+test("seed positions keep the top seeds apart", () => {
+  assert.deepEqual(seedPositions(4), [1, 4, 2, 3]);
+  assert.deepEqual(seedPositions(8), [1, 8, 4, 5, 2, 7, 3, 6]);
+});
+
+test("single elimination: byes resolve and the top seed wins", () => {
+  const all = buildBracket(seeds(6), "single");
+  // 8-slot bracket: seeds 1 and 2 get byes into round 2
+  assert.equal(byId(all, "W1-1").p2, BYE);
+  assert.equal(byId(all, "W1-1").status, "done");
+  assert.equal(byId(all, "W2-1").p1, "p1");
+  assert.equal(champion(all, "single"), null);
+
+  playOut(all);
+  assert.equal(champion(all, "single"), "p1");
+});
+
+test("recordWinner rejects matches that aren't in progress or outsiders", () => {
+  const all = buildBracket(seeds(4), "single");
+  assert.equal(recordWinner(all, "W2-1", "p1"), "Match is not in progress");
+  assert.equal(recordWinner(all, "W1-1", "p2"), "Winner is not in this match");
+  assert.equal(recordWinner(all, "nope", "p1"), "Match not found");
+  assert.equal(recordWinner(all, "W1-1", "p4"), null);
+  assert.equal(byId(all, "W2-1").p1, "p4");
+  assert.equal(recordWinner(all, "W1-1", "p1"), "Match is not in progress");
+});
+
+test("double elimination: the winners-side champion skips the reset", () => {
+  const all = buildBracket(seeds(8), "double");
+  playOut(all);
+  assert.equal(byId(all, "GF2").status, "skipped");
+  assert.equal(champion(all, "double"), "p1");
+});
+
+test("double elimination: a losers-side win in GF1 forces the reset", () => {
+  const all = buildBracket(seeds(4), "double");
+  // p1 loses the winners final to p2, comes back through the losers side and
+  // takes GF1, so the two meet again
+  playOut(all, (m) => m.id === "W2-1");
+  const reset = byId(all, "GF2");
+  assert.equal(reset.status, "done");
+  assert.deepEqual([reset.p1, reset.p2].sort(), ["p1", "p2"]);
+  assert.equal(champion(all, "double"), reset.winner);
+});
+
+test("double elimination: losers drop into the losers bracket", () => {
+  const all = buildBracket(seeds(4), "double");
+  assert.equal(recordWinner(all, "W1-1", "p1"), null);
+  assert.equal(recordWinner(all, "W1-2", "p2"), null);
+  const l1 = byId(all, "L1-1");
+  assert.deepEqual([l1.p1, l1.p2], ["p4", "p3"]);
+  assert.equal(l1.status, "ready");
+});
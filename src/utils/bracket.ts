@@ -0,0 +1,187 @@
+// utils/bracket.ts
+// Single- and double-elimination brackets (pure; persistence lives in the router).
+//
+// Match ids: "W{round}-{n}" winners side, "L{round}-{n}" losers side,
+// "GF1" / "GF2" grand final (+ reset). Entrants are discord ids; an empty
+// seed is the BYE marker and loses automatically.
+
+export const BYE = "BYE";
+
+export type BracketFormat = "single" | "double";
+export type SlotRef = { id: string; slot: 1 | 2 };
+
+export type BracketMatch = {
+  id: string;
+  bracket: "W" | "L" | "GF";
+  round: number;
+  index: number;
+  p1: string | null; // null = not decided yet
+  p2: string | null;
+  winner: string | null;
+  loser: string | null;
+  status: "pending" | "ready" | "live" | "done" | "skipped";
+  winTo: SlotRef | null;
+  loseTo: SlotRef | null;
+  sessionKey?: string | null;
+  seriesKey?: string | null;
+};
+
+/** Standard seed positions: 1 v N, N/2 v N/2+1, ... so top seeds meet last */
+export function seedPositions(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2 + 1;
+    order = order.flatMap((s) => [s, n - s]);
+  }
+  return order;
+}
+
+function match(
+  bracket: BracketMatch["bracket"],
+  round: number,
+  index: number,
+  id = `${bracket}${round}-${index}`
+): BracketMatch {
+  return {
+    id,
+    bracket,
+    round,
+    index,
+    p1: null,
+    p2: null,
+    winner: null,
+    loser: null,
+    status: "pending",
+    winTo: null,
+    loseTo: null,
+  };
+}
+
+/** `seeded` is best seed first; the bracket is padded to a power of two with BYEs */
+export function buildBracket(seeded: string[], format: BracketFormat): BracketMatch[] {
+  let size = 2;
+  while (size < seeded.length) size *= 2;
+  const rounds = Math.log2(size);
+  const byId = new Map<string, BracketMatch>();
+  const add = (m: BracketMatch) => (byId.set(m.id, m), m);
+
+  // winners side
+  for (let r = 1; r <= rounds; r++) {
+    for (let i = 1; i <= size / 2 ** r; i++) {
+      const m = add(match("W", r, i));
+      if (r < rounds) m.winTo = { id: `W${r + 1}-${Math.ceil(i / 2)}`, slot: i % 2 ? 1 : 2 };
+    }
+  }
+  const pos = seedPositions(size);
+  for (let i = 1; i <= size / 2; i++) {
+    const m = byId.get(`W1-${i}`)!;
+    m.p1 = seeded[pos[2 * i - 2] - 1] ?? BYE;
+    m.p2 = seeded[pos[2 * i - 1] - 1] ?? BYE;
+  }
+
+  if (format === "double") {
+    const gf1 = add(match("GF", 1, 1, "GF1"));
+    add(match("GF", 2, 1, "GF2"));
+    byId.get(`W${rounds}-1`)!.winTo = { id: "GF1", slot: 1 };
+
+    if (rounds === 1) {
+      byId.get("W1-1")!.loseTo = { id: gf1.id, slot: 2 };
+    } else {
+      // losers side: odd rounds pair survivors, even rounds take the drop-ins
+      const lbRounds = 2 * (rounds - 1);
+      for (let r = 1; r <= lbRounds; r++) {
+        const count = size / 2 ** (Math.floor((r + 1) / 2) + 1);
+        for (let i = 1; i <= count; i++) {
+          const m = add(match("L", r, i));
+          if (r === lbRounds) m.winTo = { id: "GF1", slot: 2 };
+          else if (r % 2 === 1) m.winTo = { id: `L${r + 1}-${i}`, slot: 1 };
+          else m.winTo = { id: `L${r + 1}-${Math.ceil(i / 2)}`, slot: i % 2 ? 1 : 2 };
+        }
+      }
+      for (let i = 1; i <= size / 2; i++) {
+        byId.get(`W1-${i}`)!.loseTo = { id: `L1-${Math.ceil(i / 2)}`, slot: i % 2 ? 1 : 2 };
+      }
+      for (let r = 2; r <= rounds; r++) {
+        const count = size / 2 ** r;
+        for (let i = 1; i <= count; i++) {
+          // alternate the drop-in order so early rematches are less likely
+          const target = r % 2 === 0 ? count - i + 1 : i;
+          byId.get(`W${r}-${i}`)!.loseTo = { id: `L${2 * (r - 1)}-${target}`, slot: 2 };
+        }
+      }
+    }
+  }
+
+  const all = [...byId.values()];
+  settle(all);
+  return all;
+}
+
+function place(all: BracketMatch[], ref: SlotRef | null, who: string | null) {
+  if (!ref || who == null) return;
+  const m = all.find((x) => x.id === ref.id);
+  if (!m) return;
+  if (ref.slot === 1) m.p1 = who;
+  else m.p2 = who;
+}
+
+function finish(all: BracketMatch[], m: BracketMatch, winner: string) {
+  m.winner = winner;
+  m.loser = winner === m.p1 ? m.p2 : m.p1;
+  m.status = "done";
+
+  if (m.id === "GF1") {
+    const reset = all.find((x) => x.id === "GF2");
+    if (!reset) return;
+    if (winner === m.p1) {
+      reset.status = "skipped"; // the winners-side champion never lost
+    } else {
+      reset.p1 = m.p2;
+      reset.p2 = m.p1;
+    }
+    return;
+  }
+  place(all, m.winTo, m.winner);
+  place(all, m.loseTo, m.loser);
+}
+
+/** Resolve BYE matches and mark matches with two real entrants as ready */
+export function settle(all: BracketMatch[]) {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const m of all) {
+      if (m.status !== "pending" || m.p1 == null || m.p2 == null) continue;
+      if (m.p1 === BYE || m.p2 === BYE) {
+        finish(all, m, m.p1 === BYE ? m.p2 : m.p1);
+      } else {
+        m.status = "ready";
+      }
+      changed = true;
+    }
+  }
+}
+
+/** Record a played match; returns an error message when it can't be applied */
+export function recordWinner(all: BracketMatch[], id: string, winner: string): string | null {
+  const m = all.find((x) => x.id === id);
+  if (!m) return "Match not found";
+  if (m.status !== "ready" && m.status !== "live") return "Match is not in progress";
+  if (winner !== m.p1 && winner !== m.p2) return "Winner is not in this match";
+  finish(all, m, winner);
+  settle(all);
+  return null;
+}
+
+/** Champion once the bracket is decided, otherwise null */
+export function champion(all: BracketMatch[], format: BracketFormat): string | null {
+  if (format === "double") {
+    const gf1 = all.find((m) => m.id === "GF1");
+    const gf2 = all.find((m) => m.id === "GF2");
+    if (gf2?.status === "done") return gf2.winner;
+    if (gf1?.status === "done" && gf2?.status === "skipped") return gf1.winner;
+    return null;
+  }
+  const last = all.reduce((a, m) => (m.bracket === "W" && m.round > a.round ? m : a), all[0]);
+  return last?.status === "done" ? last.winner : null;
+}
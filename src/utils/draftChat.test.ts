@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_CHAT_LEN, allowChat, sanitizeChatBody, shapeChatRow, systemLineFor } from "./draftChat";
+
+const nameOf = (code: string) => code.toUpperCase();
+
+test("messages are whitespace-collapsed and capped", () => {
+  assert.equal(sanitizeChatBody("  gl\n\n hf  "), "gl hf");
+  assert.equal(sanitizeChatBody("   "), null);
+  assert.equal(sanitizeChatBody(42), null);
+  assert.equal(sanitizeChatBody("x".repeat(MAX_CHAT_LEN)), "x".repeat(MAX_CHAT_LEN));
+  assert.equal(sanitizeChatBody("x".repeat(MAX_CHAT_LEN + 1)), null);
+});
+
+test("each sender gets five messages per ten seconds", () => {
+  const t0 = 1_700_000_000_000;
+  for (let i = 0; i < 5; i++) assert.ok(allowChat("tok-a", t0 + i));
+  assert.equal(allowChat("tok-a", t0 + 5), false);
+  assert.ok(allowChat("tok-b", t0 + 5));
+  assert.ok(allowChat("tok-a", t0 + 10_000));
+});
+
+test("draft actions become system lines; quiet ops stay quiet", () => {
+  assert.equal(systemLineFor("ban", "B", { characterCode: "kafka" }, nameOf), "Blue banned KAFKA");
+  assert.equal(
+    systemLineFor("timeout", "R", { result: "pick", characterCode: "ellen" }, nameOf),
+    "Red ran out of time; picked ELLEN at random"
+  );
+  assert.equal(systemLineFor("timeout", "R", { result: "forfeit" }, nameOf), "Red forfeited on time");
+  assert.equal(systemLineFor("setEidolon", "B", { eidolon: 2 }, nameOf), null);
+  assert.equal(
+    systemLineFor("referee", null, { action: "pause", reason: "lag" }, nameOf),
+    "Referee: pause (lag)"
+  );
+});
+
+test("blind submissions say nothing until the reveal", () => {
+  assert.equal(systemLineFor("blindBan", "B", { index: 0 }, nameOf), null);
+  const reveal = { index: 0, blue: "kafka", red: "", collision: false, outcome: "revealed" };
+  assert.equal(
+    systemLineFor("blindBan", null, { reveal }, nameOf),
+    "Blind bans revealed: Blue banned KAFKA, Red skipped"
+  );
+  const redo = { ...reveal, red: "kafka", collision: true, outcome: "redo" };
+  assert.equal(
+    systemLineFor("blindBan", null, { reveal: redo }, nameOf),
+    "Both sides banned KAFKA; blind bans are redone"
+  );
+});
+
+test("rows are shaped with a numeric id and a known side", () => {
+  const m = shapeChatRow({ id: "9", role: "spectator", side: "", name: "n", body: "b", created_at: "t" });
+  assert.deepEqual(m, { id: 9, role: "spectator", side: null, name: "n", body: "b", at: "t" });
+});
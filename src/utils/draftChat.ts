@@ -0,0 +1,114 @@
+// utils/draftChat.ts
+// Per-session chat (hsr_draft_chat / zzz_draft_chat): roles, message
+// shaping, per-token rate limits and the system lines generated from draft
+// actions ("Blue banned X").
+
+export type ChatRole = "participant" | "referee" | "spectator" | "system";
+
+export type ChatMessage = {
+  id: number;
+  role: ChatRole;
+  side: "B" | "R" | null;
+  name: string;
+  body: string;
+  at: string;
+};
+
+export const MAX_CHAT_LEN = 300;
+const RATE_WINDOW_MS = 10_000;
+const RATE_MAX = 5;
+
+export function shapeChatRow(r: any): ChatMessage {
+  return {
+    id: Number(r.id),
+    role: r.role,
+    side: r.side === "B" || r.side === "R" ? r.side : null,
+    name: r.name,
+    body: r.body,
+    at: r.created_at,
+  };
+}
+
+/** Trimmed message text, or null when empty / too long */
+export function sanitizeChatBody(raw: any): string | null {
+  if (typeof raw !== "string") return null;
+  const t = raw.replace(/\s+/g, " ").trim();
+  return t && t.length <= MAX_CHAT_LEN ? t : null;
+}
+
+/* ───────────────── Rate limit (process-local, per token) ───────────────── */
+const sent = new Map<string, number[]>();
+
+/** Records the attempt; false when `who` is over RATE_MAX messages per window */
+export function allowChat(who: string, now = Date.now()): boolean {
+  const recent = (sent.get(who) || []).filter((t) => now - t < RATE_WINDOW_MS);
+  if (recent.length >= RATE_MAX) {
+    sent.set(who, recent);
+    return false;
+  }
+  recent.push(now);
+  sent.set(who, recent);
+  return true;
+}
+
+// drop idle senders so the map doesn't grow forever
+setInterval(() => {
+  const now = Date.now();
+  for (const [who, times] of sent) {
+    if (!times.some((t) => now - t < RATE_WINDOW_MS)) sent.delete(who);
+  }
+}, 60_000).unref();
+
+/* ───────────────── System lines ───────────────── */
+const SIDE_NAME = { B: "Blue", R: "Red" } as const;
+
+/**
+ * Chat line for a logged draft action, or null for ops that stay quiet
+ * (eidolon/equipment tweaks, hidden blind submissions, ...).
+ * `nameOf` maps character codes to display names.
+ */
+export function systemLineFor(
+  op: string,
+  side: "B" | "R" | null,
+  payload: any,
+  nameOf: (code: string) => string
+): string | null {
+  const who = side ? SIDE_NAME[side] : "";
+  const p = payload || {};
+
+  switch (op) {
+    case "pick":
+      return `${who} picked ${nameOf(p.characterCode)}`;
+    case "ban":
+      return `${who} banned ${nameOf(p.characterCode)}`;
+    case "blindBan": {
+      const r = p.reveal;
+      if (!r) return null;
+      if (r.outcome === "redo") return `Both sides banned ${nameOf(r.blue)}; blind bans are redone`;
+      const banned = (code: string) => (code ? `banned ${nameOf(code)}` : "skipped");
+      return `Blind bans revealed: Blue ${banned(r.blue)}, Red ${banned(r.red)}`;
+    }
+    case "undoLast":
+      return `${who} undid their last move`;
+    case "setLock":
+      return `${who} locked in`;
+    case "timeout":
+      if (p.result === "forfeit") return `${who} forfeited on time`;
+      if (p.blind)
+        return `${who} ran out of time; blind ban ${p.result === "skip" ? "skipped" : "drawn at random"}`;
+      if (p.result === "skip") return `${who} ran out of time; turn skipped`;
+      return `${who} ran out of time; ${p.result === "ban" ? "banned" : "picked"} ${nameOf(
+        p.characterCode
+      )} at random`;
+    case "reportScore":
+      return p.status === "disputed"
+        ? `${who} reported a different score; awaiting admin`
+        : `${who} reported the score`;
+    case "confirmScore":
+      return `${who} confirmed the score`;
+    case "referee":
+      return `Referee: ${p.action}${p.reason ? ` (${p.reason})` : ""}`;
+    default:
+      return null;
+  }
+}
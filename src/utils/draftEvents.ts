@@ -0,0 +1,33 @@
+// utils/draftEvents.ts
+// In-process notifications between the spectator routers and the features
+// built on top of single sessions (series, brackets, ...).
+import { EventEmitter } from "events";
+
+export type DraftGame = "hsr" | "zzz";
+export type DraftResultEvent = { game: DraftGame; key: string };
+export type SeriesResultEvent = { key: string; winner: "team1" | "team2" };
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(20);
+
+/** A session just got its final result (confirmed, admin-resolved or forfeit) */
+export function emitDraftResult(ev: DraftResultEvent) {
+  emitter.emit("result", ev);
+}
+
+export function onDraftResult(fn: (ev: DraftResultEvent) => void | Promise<void>) {
+  emitter.on("result", (ev: DraftResultEvent) => {
+    Promise.resolve(fn(ev)).catch((e) => console.error("draft result listener failed:", e));
+  });
+}
+
+/** A series just reached its winning score */
+export function emitSeriesResult(ev: SeriesResultEvent) {
+  emitter.emit("seriesResult", ev);
+}
+
+export function onSeriesResult(fn: (ev: SeriesResultEvent) => void | Promise<void>) {
+  emitter.on("seriesResult", (ev: SeriesResultEvent) => {
+    Promise.resolve(fn(ev)).catch((e) => console.error("series result listener failed:", e));
+  });
+}
@@ -0,0 +1,521 @@
+// utils/draftHub.ts
+// The spectator SSE hub shared by the HSR and ZZZ routers: per-session
+// viewer sets, the timer ticker, broadcast delay, presence, Last-Event-ID
+// replay, delta (JSON Patch) streams, the WebSocket transport and the idle
+// session reaper. One hub per game; the router supplies the game-specific
+// parts (loading a shaped session, timeout resolution, player actions).
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { pool } from "../db";
+import { DraftGame } from "./draftEvents";
+import {
+  burnToNow,
+  clockSides,
+  isTurnTimedOut,
+  sanitizeTimeoutPolicy,
+} from "./draftTimer";
+import { resolvePlayerSide } from "./sideAuth";
+import { Presence, countPresence } from "./presence";
+import {
+  claimTicker,
+  holdsTicker,
+  onHubEvent,
+  publishHubEvent,
+  releaseTicker,
+} from "./draftPubSub";
+import {
+  ReplayEntry,
+  ReplayRing,
+  currentEventId,
+  eventsSince,
+  frameEvent,
+  newReplayRing,
+} from "./sseReplay";
+import { diffJson } from "./jsonPatch";
+import {
+  ActionReply,
+  StreamSink,
+  acceptWebSocket,
+  hubSink,
+  socketReply,
+} from "./draftSocket";
+import { REAP_INTERVAL_MS, idleExpiryMinutes } from "./sessionLifecycle";
+
+type Client = StreamSink;
+
+export type StreamOptions = { pt: string; viewerId?: string; delta: boolean; lastEventId: string };
+
+export type DraftHubConfig = {
+  game: DraftGame;
+  /** `{game}_draft_sessions` */
+  table: string;
+  /** The public session payload (what `update` / `snapshot` events carry); null when gone */
+  loadShapedSession(key: string): Promise<any | null>;
+  /** Apply the session's timeout policy; called by the ticker once the turn ran out */
+  resolveTimeout(key: string): Promise<void>;
+  /** The player actions handler, shared by POST /actions and the WebSocket */
+  applyAction(key: string, body: any, viewerId: string | undefined, res: ActionReply): Promise<void>;
+};
+
+export type DraftHub = {
+  push(key: string, event: string, payload: any): void;
+  snapshotAndPush(key: string): Promise<void>;
+  presenceOf(key: string): Presence;
+  isLiveViewer(key: string, pt: string, userId?: string): Promise<boolean>;
+  delayedView(key: string): any | null;
+  openStream(key: string, res: Client, opts: StreamOptions): Promise<boolean>;
+  handleSocket(req: IncomingMessage, socket: Duplex, head: Buffer, key: string): Promise<void>;
+};
+
+const TICKER_CLAIM_RETRY_MS = 5_000;
+const REPLAY_TTL_MS = 60_000;
+
+export function createDraftHub(cfg: DraftHubConfig): DraftHub {
+  const { game, table, loadShapedSession } = cfg;
+
+  const clients = new Map<string, Set<Client>>();
+
+  // runtime cache for shaped sessions + per-session tickers
+  const sessionCache = new Map<string, any>();
+  const tickers = new Map<string, NodeJS.Timeout>();
+
+  // one instance runs a session's ticker (advisory lock); the others get its
+  // `timer` events through the hub. Keys waiting on a claim:
+  const claiming = new Set<string>();
+  const tickerName = (key: string) => `${game}:ticker:${key}`;
+
+  // broadcast delay: anonymous viewers get every event `spectatorDelaySeconds`
+  // late; captains (pt holders) and the owner stay on the live channel
+  const liveClients = new WeakSet<Client>();
+  const delays = new Map<string, number>(); // key -> ms
+  const history = new Map<string, { at: number; payload: any }[]>();
+
+  // presence: which side each open stream belongs to (null = spectator)
+  const clientSides = new WeakMap<Client, "B" | "R" | null>();
+  const presenceTimers = new Map<string, NodeJS.Timeout>();
+
+  // numbered events for Last-Event-ID replay; kept a while after the last
+  // viewer leaves so a reconnect still finds them
+  const rings = new Map<string, ReplayRing>();
+
+  // delta viewers (?delta=1) get `patch` events { base, rev, ops } instead of
+  // full updates; `bases` is the last update every viewer has, by revision
+  const deltaClients = new WeakSet<Client>();
+  const bases = new Map<string, { rev: number; doc: any }>();
+
+  function stopTickerIfNoClients(key: string) {
+    const set = clients.get(key);
+    if (set && set.size > 0) return;
+    const h = tickers.get(key);
+    if (h) clearInterval(h);
+    tickers.delete(key);
+    void releaseTicker(tickerName(key));
+    sessionCache.delete(key);
+    delays.delete(key);
+    history.delete(key);
+
+    const ring = rings.get(key);
+    if (ring && !ring.dropTimer) {
+      ring.dropTimer = setTimeout(() => {
+        if (!clients.has(key)) {
+          rings.delete(key);
+          bases.delete(key);
+        }
+        else ring.dropTimer = null;
+      }, REPLAY_TTL_MS);
+    }
+  }
+
+  function addClient(key: string, res: Client) {
+    let set = clients.get(key);
+    if (!set) clients.set(key, (set = new Set()));
+    set.add(res);
+    schedulePresence(key);
+
+    const ring = rings.get(key);
+    if (!ring) rings.set(key, newReplayRing());
+    else if (ring.dropTimer) {
+      clearTimeout(ring.dropTimer);
+      ring.dropTimer = null;
+    }
+    res.on("close", () => {
+      set!.delete(res);
+      if (set!.size === 0) {
+        clients.delete(key);
+        stopTickerIfNoClients(key);
+      } else {
+        schedulePresence(key);
+      }
+    });
+  }
+
+  function presenceOf(key: string) {
+    const set = clients.get(key) || new Set<Client>();
+    return countPresence([...set].map((c) => clientSides.get(c) ?? null));
+  }
+
+  /** One `presence` event per second at most; not subject to the broadcast delay */
+  function schedulePresence(key: string) {
+    if (presenceTimers.has(key)) return;
+    presenceTimers.set(
+      key,
+      setTimeout(() => {
+        presenceTimers.delete(key);
+        const set = clients.get(key);
+        if (!set) return;
+        const line = `event: presence\ndata: ${JSON.stringify(presenceOf(key))}\n\n`;
+        for (const res of set) writeIfOpen(res, line);
+      }, 1000)
+    );
+  }
+
+  /**
+   * Push to this instance's viewers and to every other instance. Snapshots go
+   * out without their payload; receivers reload the session themselves.
+   */
+  function push(key: string, event: string, payload: any) {
+    pushLocal(key, event, payload);
+    const snapshot = event === "update" || event === "snapshot";
+    void publishHubEvent({ topic: game, key, event, payload: snapshot ? undefined : payload });
+  }
+
+  function pushLocal(key: string, event: string, payload: any) {
+    const set = clients.get(key);
+    const ring = rings.get(key);
+    if (!set && !ring) return;
+    const patch = event === "update" ? nextPatch(key, payload) : null;
+    // numbered (and buffered) even with nobody connected, for viewers about to reconnect
+    const { line, patchLine } = frameEvent(
+      ring,
+      event,
+      payload,
+      patch ? { event: "patch", payload: patch } : undefined
+    );
+    if (!set) return;
+    if (event === "update" || event === "snapshot") {
+      sessionCache.set(key, payload);
+      if (payload?.spectatorDelaySeconds !== undefined)
+        delays.set(key, Number(payload.spectatorDelaySeconds) * 1000);
+      remember(key, payload);
+    }
+    const delayMs = delays.get(key) ?? 0;
+    for (const res of set) {
+      const live = !delayMs || liveClients.has(res);
+      // delayed viewers stay on full updates: their history replays are snapshots
+      const out = patchLine && live && deltaClients.has(res) ? patchLine : line;
+      if (live) res.write(out);
+      else setTimeout(() => writeIfOpen(res, out), delayMs);
+    }
+  }
+
+  /** Move the delta base to `payload`; the patch from the previous base, if there was one */
+  function nextPatch(key: string, payload: any) {
+    const doc = JSON.parse(JSON.stringify(payload));
+    const prev = bases.get(key);
+    const rev = (prev?.rev ?? 0) + 1;
+    bases.set(key, { rev, doc });
+    return prev ? { base: prev.rev, rev, ops: diffJson(prev.doc, doc) } : null;
+  }
+
+  function writeIfOpen(res: Client, line: string) {
+    if (!res.writableEnded && !res.destroyed) res.write(line);
+  }
+
+  /** Resend what a reconnecting viewer missed; delayed viewers stay on their delay */
+  function replayMissed(res: Client, missed: ReplayEntry[], delayMs: number, delta: boolean) {
+    const now = Date.now();
+    for (const e of missed) {
+      const line = delta && e.patchLine ? e.patchLine : e.line;
+      const wait = e.at + delayMs - now;
+      if (wait <= 0) res.write(line);
+      else setTimeout(() => writeIfOpen(res, line), wait);
+    }
+  }
+
+  /** Keep the snapshots a delayed viewer may still need (plus the newest one they can already see) */
+  function remember(key: string, payload: any) {
+    const delayMs = delays.get(key) ?? 0;
+    if (!delayMs) return void history.delete(key);
+
+    const now = Date.now();
+    const list = history.get(key) || [];
+    list.push({ at: now, payload });
+    const cutoff = now - delayMs;
+    while (list.length > 1 && list[1].at <= cutoff) list.shift();
+    history.set(key, list);
+  }
+
+  /** Catch a delayed viewer up: the last snapshot they may see now, the rest on schedule */
+  function sendDelayedSnapshot(key: string, res: Client, current: any, delayMs: number) {
+    const now = Date.now();
+    const cutoff = now - delayMs;
+    const entries = history.get(key) || [];
+    const seen = entries.filter((e) => e.at <= cutoff);
+    const pending = entries.filter((e) => e.at > cutoff);
+    const line = (event: string, p: any) => `event: ${event}\ndata: ${JSON.stringify(p)}\n\n`;
+
+    if (seen.length) res.write(line("snapshot", seen[seen.length - 1].payload));
+    else if (!pending.length) {
+      setTimeout(() => writeIfOpen(res, line("snapshot", current)), delayMs);
+      return;
+    }
+    pending.forEach((e, i) => {
+      const event = !seen.length && i === 0 ? "snapshot" : "update";
+      setTimeout(() => writeIfOpen(res, line(event, e.payload)), e.at + delayMs - now);
+    });
+  }
+
+  /**
+   * Captains (side token, bound account or participant) and the session owner
+   * bypass the broadcast delay; `side` tags the stream for presence.
+   */
+  async function classifyViewer(key: string, pt: string, userId?: string) {
+    if (!pt && !userId) return { live: false, side: null };
+    const q = await pool.query(
+      `SELECT blue_token, red_token, blue_user_id, red_user_id, owner_user_id, participants
+         FROM ${table}
+        WHERE session_key = $1::text`,
+      [key]
+    );
+    const r = q.rows[0];
+    if (!r) return { live: false, side: null };
+    const { side } = resolvePlayerSide(r, pt || null, userId);
+    return { live: !!side || (!!userId && r.owner_user_id === userId), side };
+  }
+
+  /** Whether REST reads for this viewer skip the broadcast delay, as their stream would */
+  async function isLiveViewer(key: string, pt: string, userId?: string) {
+    return (await classifyViewer(key, pt, userId)).live;
+  }
+
+  /**
+   * The newest snapshot a delayed viewer may see now, from the history kept
+   * for this instance's streams; null when there is none old enough.
+   */
+  function delayedView(key: string) {
+    const delayMs = delays.get(key) ?? 0;
+    const entries = history.get(key);
+    if (!delayMs || !entries) return null;
+    const cutoff = Date.now() - delayMs;
+    const seen = entries.filter((e) => e.at <= cutoff);
+    return seen.length ? seen[seen.length - 1].payload : null;
+  }
+
+  /** Run the session's ticker here unless another instance owns it; retried while viewers stay */
+  function startTicker(key: string) {
+    if (tickers.has(key) || claiming.has(key)) return;
+    claiming.add(key);
+    void claimTicker(tickerName(key)).then((owned) => {
+      claiming.delete(key);
+      if (!clients.has(key)) {
+        if (owned) void releaseTicker(tickerName(key));
+        return;
+      }
+      if (owned) runTicker(key);
+      else setTimeout(() => clients.has(key) && startTicker(key), TICKER_CLAIM_RETRY_MS);
+    });
+  }
+
+  function runTicker(key: string) {
+    if (tickers.has(key)) return;
+
+    // remember last minimal timer payload signature so we only push on change
+    let lastSig = "";
+
+    const h = setInterval(() => {
+      // lost the lock (hub connection dropped and another instance took over)
+      if (!holdsTicker(tickerName(key))) {
+        clearInterval(h);
+        tickers.delete(key);
+        return void startTicker(key);
+      }
+
+      const payload = sessionCache.get(key);
+      if (!payload) return;
+
+      const base = payload.state || {};
+
+      // If timer isn't enabled, or nobody's clock runs at this turn, skip the work.
+      // (burnToNow() handles these conditions too, but short-circuiting saves CPU across many rooms.)
+      if (!base.timerEnabled) return;
+      if (!clockSides(base).length) return;
+
+      // compute view only; don't touch DB
+      const burned = burnToNow(base, Date.now());
+
+      // store in cache so the next burn diff is from "now"
+      sessionCache.set(key, { ...payload, state: burned });
+
+      // Build a tiny signature of the timer-relevant fields
+      const sig = JSON.stringify({
+        te: !!burned.timerEnabled,
+        pB: !!burned.paused?.B,
+        pR: !!burned.paused?.R,
+        rB: burned.reserveLeft?.B ?? 0,
+        rR: burned.reserveLeft?.R ?? 0,
+        g:  burned.graceLeft ?? 0,
+        t:  burned.currentTurn ?? 0,
+      });
+
+      if (sig !== lastSig) {
+        lastSig = sig;
+        push(key, "timer", {
+          state: {
+            timerEnabled: !!burned.timerEnabled,
+            paused: burned.paused,
+            reserveLeft: burned.reserveLeft,
+            graceLeft: burned.graceLeft,
+            timerUpdatedAt: burned.timerUpdatedAt,
+            currentTurn: burned.currentTurn,
+          },
+        });
+      }
+
+      if (isTurnTimedOut(burned) && sanitizeTimeoutPolicy(burned.timeoutPolicy) !== "none") {
+        void cfg.resolveTimeout(key);
+      }
+    }, 1000);
+
+    tickers.set(key, h);
+  }
+
+  async function snapshotAndPush(key: string) {
+    const shaped = await loadShapedSession(key);
+    if (shaped) push(key, "update", shaped);
+  }
+
+  /*
+   * Reaper: unfinished sessions without activity for SESSION_IDLE_MINUTES
+   * become `expired` (still in the lobby) or `abandoned` (mid-draft). Viewers
+   * get an `expired` event { key, lifecycle } and the updated snapshot. Safe
+   * to run on every instance: the update only claims rows not reaped yet.
+   */
+  async function reapIdleSessions() {
+    const { rows } = await pool.query(
+      `UPDATE ${table}
+          SET lifecycle = CASE WHEN COALESCE((state->>'currentTurn')::int, 0) > 0
+                               THEN 'abandoned' ELSE 'expired' END
+        WHERE is_complete IS NOT TRUE
+          AND lifecycle IS NULL
+          AND series_key IS NULL
+          AND tournament_key IS NULL
+          AND swiss_event_key IS NULL
+          AND last_activity_at < now() - ($1::int * INTERVAL '1 minute')
+        RETURNING session_key, lifecycle`,
+      [idleExpiryMinutes()]
+    );
+    for (const r of rows) {
+      await snapshotAndPush(r.session_key);
+      push(r.session_key, "expired", { key: r.session_key, lifecycle: r.lifecycle });
+    }
+  }
+
+  setInterval(() => {
+    reapIdleSessions().catch((e) => console.error(`${game} session reaper failed:`, e));
+  }, REAP_INTERVAL_MS).unref();
+
+  // events pushed on other instances; payload-less ones are reloaded from the DB
+  onHubEvent(game, async ({ key, event, payload }) => {
+    if (!clients.has(key) && !rings.has(key)) return;
+    if (payload !== undefined) return void pushLocal(key, event, payload);
+    if (event === "deleted") return void pushLocal(key, event, { key });
+    const shaped = await loadShapedSession(key);
+    if (shaped) pushLocal(key, "update", shaped);
+  });
+
+  /**
+   * Attach a viewer (SSE response or WebSocket) to the hub and send them their
+   * starting point: missed events, a live snapshot or the delayed one.
+   * false when the session doesn't exist.
+   */
+  async function openStream(key: string, res: Client, opts: StreamOptions): Promise<boolean> {
+    const { delta, lastEventId } = opts;
+    // the snapshot loaded below is at least this new
+    const ringBefore = rings.get(key);
+    const snapshotId = ringBefore ? currentEventId(ringBefore) : null;
+
+    const shaped = await loadShapedSession(key);
+    if (!shaped) {
+      res.write("event: not_found\ndata: {}\n\n");
+      return false;
+    }
+
+    const { live, side } = await classifyViewer(key, opts.pt, opts.viewerId);
+    const delayMs = Number(shaped.spectatorDelaySeconds || 0) * 1000;
+
+    clientSides.set(res, side);
+    addClient(key, res);
+    if (live) liveClients.add(res);
+    if (delta) deltaClients.add(res);
+    if (!bases.has(key)) bases.set(key, { rev: 0, doc: JSON.parse(JSON.stringify(shaped)) });
+    sessionCache.set(key, shaped);
+    delays.set(key, delayMs);
+    if (!history.has(key)) remember(key, shaped);
+
+    const missed = lastEventId ? eventsSince(rings.get(key), lastEventId) : null;
+    if (missed) {
+      replayMissed(res, missed, live ? 0 : delayMs, delta && (live || !delayMs));
+    } else if (live || !delayMs) {
+      // delta viewers start from the base the next patch applies to
+      const base = bases.get(key)!;
+      const snap = delta ? { ...base.doc, rev: base.rev } : shaped;
+      const id = (delta ? null : snapshotId) ?? currentEventId(rings.get(key)!);
+      res.write(`id: ${id}\nevent: snapshot\ndata: ${JSON.stringify(snap)}\n\n`);
+    } else {
+      sendDelayedSnapshot(key, res, shaped, delayMs);
+    }
+    startTicker(key);
+    return true;
+  }
+
+  /*
+   * WebSocket transport (captains): GET /api/{game}/sessions/:key/ws, upgrade
+   * routed from index.ts. Query as for the SSE stream: ?pt, ?delta=1,
+   * ?lastEventId / ?resync=1.
+   * Server → client: { type: "event", id, event, data }, the stream's events.
+   * Client → server: { type: "action", ref?, ...POST /actions body }, answered
+   * with { type: "result", ref, status, body }: same validation, codes and
+   * bodies as the HTTP route. `pt` defaults to the one in the socket URL.
+   */
+  async function handleSocket(req: IncomingMessage, socket: Duplex, head: Buffer, key: string) {
+    const conn = acceptWebSocket(req, socket, head);
+    if (!conn) return;
+
+    const q = new URL(req.url || "", "http://localhost").searchParams;
+    const pt = q.get("pt") || "";
+    const viewerId = ((req as any).user as { id?: string } | undefined)?.id;
+
+    conn.onMessage((text) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(text);
+      } catch {
+        return conn.send(JSON.stringify({ type: "error", error: "Invalid JSON" }));
+      }
+      if (msg?.type !== "action") {
+        return conn.send(JSON.stringify({ type: "error", error: "Unknown message type" }));
+      }
+      const { type: _type, ref, ...body } = msg;
+      if (body.pt == null && pt) body.pt = pt;
+      cfg.applyAction(key, body, viewerId, socketReply(conn, ref)).catch((e) => console.error(e));
+    });
+
+    const found = await openStream(key, hubSink(conn), {
+      pt,
+      viewerId,
+      delta: q.get("delta") === "1",
+      lastEventId: q.get("resync") === "1" ? "" : q.get("lastEventId") || "",
+    });
+    if (!found) conn.close(1008, "Session not found");
+  }
+
+  return {
+    push,
+    snapshotAndPush,
+    presenceOf,
+    isLiveViewer,
+    delayedView,
+    openStream,
+    handleSocket,
+  };
+}
@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DraftLogEntry, initialReplayState, replayDraft, shapeLogRow } from "./draftLog";
+
+let nextSeq = 1;
+const entry = (op: string, side: "B" | "R" | null, payload: any, turnAfter: number): DraftLogEntry => ({
+  seq: nextSeq++,
+  op,
+  side,
+  payload,
+  turnAfter,
+  participantId: null,
+  at: "2026-01-01T00:00:00.000Z",
+});
+
+const init = {
+  draftSequence: ["BB", "RR", "B", "R"],
+  currentTurn: 0,
+  picks: [null, null, null, null],
+  blueScores: [0, 0],
+  redScores: [0, 0],
+  blueLocked: false,
+  redLocked: false,
+};
+
+const log = () => {
+  nextSeq = 1;
+  return [
+    entry("init", null, { state: init }, 0),
+    entry("ban", "B", { index: 0, characterCode: "acheron" }, 1),
+    entry("ban", "R", { index: 1, characterCode: "kafka" }, 2),
+    entry("pick", "B", { index: 2, characterCode: "firefly" }, 3),
+    entry("setEidolon", "B", { index: 2, eidolon: 2 }, 3),
+    entry("setLightcone", "B", { index: 2, lightconeId: "23025" }, 3),
+    entry("timeout", "R", { policy: "skip", index: 3, result: "skip", characterCode: null }, 4),
+    entry("setLock", "B", { locked: true }, 4),
+  ];
+};
+
+test("a full replay rebuilds every applied change", () => {
+  const entries = log();
+  const { state, appliedThrough } = replayDraft(initialReplayState(entries, null), entries, "lightconeId");
+  assert.equal(appliedThrough, 8);
+  assert.equal(state.currentTurn, 4);
+  assert.deepEqual(state.picks[0], { characterCode: "acheron", eidolon: 0, lightconeId: null, superimpose: 1 });
+  assert.deepEqual(state.picks[2], { characterCode: "firefly", eidolon: 2, lightconeId: "23025", superimpose: 1 });
+  assert.equal(state.picks[3], null);
+  assert.equal(state.blueLocked, true);
+  // the init snapshot itself is never mutated
+  assert.ok(init.picks.every((p) => p === null));
+});
+
+test("replay can stop at a seq or before a turn", () => {
+  const entries = log();
+  const bySeq = replayDraft(init, entries, "lightconeId", { uptoSeq: 3 });
+  assert.equal(bySeq.appliedThrough, 3);
+  assert.equal(bySeq.state.currentTurn, 2);
+  assert.equal(bySeq.state.picks[2], null);
+
+  // edits that keep currentTurn at 3 are part of turn 3
+  const byTurn = replayDraft(init, entries, "lightconeId", { uptoTurn: 3 });
+  assert.equal(byTurn.appliedThrough, 6);
+  assert.equal(byTurn.state.picks[2].lightconeId, "23025");
+});
+
+test("snapshot ops replace the state wholesale", () => {
+  const entries = log();
+  const edited = { ...init, currentTurn: 1, picks: [{ characterCode: "jingliu" }, null, null, null] };
+  entries.push(entry("ownerEdit", null, { state: edited }, 1));
+  const { state } = replayDraft(init, entries, "lightconeId");
+  assert.deepEqual(state, edited);
+});
+
+test("undo clears the slot and score ops follow the confirm flow", () => {
+  nextSeq = 1;
+  const entries = [
+    entry("pick", "B", { index: 2, characterCode: "firefly" }, 3),
+    entry("undoLast", null, { index: 2 }, 2),
+    entry("reportScore", "B", { blueScores: [3, 4], redScores: [5, 5], status: "reported" }, 2),
+    entry("confirmScore", "R", { blueScores: [3, 4], redScores: [5, 5], status: "confirmed" }, 2),
+  ];
+  const { state } = replayDraft({ ...init, currentTurn: 2 }, entries, "wengineId");
+  assert.equal(state.picks[2], null);
+  assert.equal(state.scoreStatus, "confirmed");
+  assert.deepEqual(state.blueScores, [3, 4]);
+  assert.deepEqual(Object.keys(state.scoreReports).sort(), ["B", "R"]);
+});
+
+test("a blind pair is filled by its reveal, never by the submission", () => {
+  nextSeq = 1;
+  const reveal = { index: 0, blue: "acheron", red: "", collision: false, outcome: "revealed" };
+  const entries = [
+    entry("blindBan", "B", { index: 0 }, 0),
+    entry("blindBan", "R", { index: 0, reveal }, 2),
+  ];
+  const blindInit = { ...init, draftSequence: ["BX", "RX", "B", "R"] };
+  const { state } = replayDraft(blindInit, entries, "wengineId");
+  assert.deepEqual(state.picks[0], { characterCode: "acheron", eidolon: 0, wengineId: null, superimpose: 1 });
+  assert.equal(state.picks[1], null);
+  assert.equal(state.currentTurn, 2);
+});
+
+test("logs without an init entry replay from the current state with picks cleared", () => {
+  const current = { ...init, currentTurn: 3, picks: ["x", "y", "z", null], blueLocked: true };
+  const start = initialReplayState([], current);
+  assert.equal(start.currentTurn, 0);
+  assert.deepEqual(start.picks, [null, null, null, null]);
+  assert.equal(start.blueLocked, false);
+});
+
+test("rows are shaped with numeric seq/turn and a known side", () => {
+  const e = shapeLogRow({ id: "12", op: "pick", side: "X", payload: null, turn_after: "3", created_at: "t" });
+  assert.equal(e.seq, 12);
+  assert.equal(e.side, null);
+  assert.deepEqual(e.payload, {});
+  assert.equal(e.turnAfter, 3);
+  assert.equal(e.participantId, null);
+});
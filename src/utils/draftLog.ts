@@ -0,0 +1,179 @@
+// utils/draftLog.ts
+// Append-only draft action log (hsr_draft_actions / zzz_draft_actions) and
+// replay of it back into a draft state.
+//
+// Every entry carries what was *applied* (post-validation, post-clamp), so
+// replay never re-validates anything. Entries leave the server with their
+// state snapshots' blind submissions hidden (the timeline is public).
+import { hideBlindSubmissions } from "./blindBan";
+
+export type DraftLogEntry = {
+  seq: number;
+  op: string;
+  side: "B" | "R" | null;
+  payload: any;
+  turnAfter: number;
+  participantId: string | null; // which teammate acted (null = side token / system)
+  at: string;
+};
+
+export function shapeLogRow(r: any): DraftLogEntry {
+  const payload = r.payload ?? {};
+  return {
+    seq: Number(r.id),
+    op: r.op,
+    side: r.side === "B" || r.side === "R" ? r.side : null,
+    payload: payload.state ? { ...payload, state: hideBlindSubmissions(payload.state) } : payload,
+    turnAfter: Number(r.turn_after),
+    participantId: r.participant_id ?? null,
+    at: r.created_at,
+  };
+}
+
+/** Ops that carry a full state snapshot instead of a single change */
+const SNAPSHOT_OPS = new Set(["init", "ownerEdit", "referee"]);
+
+function cloneState(s: any) {
+  return JSON.parse(JSON.stringify(s ?? {}));
+}
+
+/** Fill a revealed blind pair; an empty code (skipped on time) leaves its slot empty */
+function fillBlindReveal(s: any, r: any, equipKey: "lightconeId" | "wengineId") {
+  if (r?.outcome !== "revealed") return;
+  for (const [i, code] of [[r.index, r.blue], [r.index + 1, r.red]]) {
+    s.picks[i] = code
+      ? { characterCode: String(code), eidolon: 0, [equipKey]: null, superimpose: 1 }
+      : null;
+  }
+}
+
+/**
+ * Apply one logged entry. `equipKey` is the per-game equipment field on a
+ * pick ("lightconeId" for HSR, "wengineId" for ZZZ).
+ */
+export function applyLogEntry(
+  state: any,
+  entry: DraftLogEntry,
+  equipKey: "lightconeId" | "wengineId"
+): any {
+  const p = entry.payload || {};
+
+  if (SNAPSHOT_OPS.has(entry.op)) return cloneState(p.state);
+
+  const s = cloneState(state);
+  const idx = Number(p.index);
+  const slot = Number.isInteger(idx) ? s.picks?.[idx] : null;
+
+  switch (entry.op) {
+    case "pick":
+    case "ban":
+      s.picks[idx] = {
+        characterCode: String(p.characterCode),
+        eidolon: 0,
+        [equipKey]: null,
+        superimpose: 1,
+      };
+      break;
+    case "setEidolon":
+    case "setMindscape":
+      if (slot) slot.eidolon = Number(p.eidolon);
+      break;
+    case "setSuperimpose":
+      if (slot) slot.superimpose = Number(p.superimpose);
+      break;
+    case "setLightcone":
+    case "setWengine":
+      if (slot) slot[equipKey] = p[equipKey] ?? null;
+      break;
+    case "setLock":
+      if (entry.side === "B") s.blueLocked = !!p.locked;
+      if (entry.side === "R") s.redLocked = !!p.locked;
+      break;
+    case "blindBan":
+      // hidden submissions carry no code; only the reveal fills the pair
+      fillBlindReveal(s, p.reveal, equipKey);
+      break;
+    case "undoLast":
+      s.picks[idx] = null;
+      break;
+    case "timeout":
+      // system action: result is "pick" | "ban" | "skip" | "forfeit"
+      if (p.blind) {
+        fillBlindReveal(s, p.reveal, equipKey);
+      } else if (p.result === "pick" || p.result === "ban") {
+        s.picks[idx] = {
+          characterCode: String(p.characterCode),
+          eidolon: 0,
+          [equipKey]: null,
+          superimpose: 1,
+        };
+      } else if (p.result === "forfeit") {
+        s.forfeitedBy = entry.side;
+      }
+      break;
+    case "reportScore":
+    case "confirmScore":
+    case "resolveScore":
+      if (entry.side) {
+        s.scoreReports = {
+          ...(s.scoreReports || {}),
+          [entry.side]: { blueScores: p.blueScores, redScores: p.redScores, at: entry.at },
+        };
+      }
+      s.scoreStatus = p.status;
+      if (p.status === "confirmed" || p.status === "resolved") {
+        s.blueScores = p.blueScores;
+        s.redScores = p.redScores;
+      }
+      break;
+  }
+
+  s.currentTurn = entry.turnAfter;
+  return s;
+}
+
+/**
+ * Where a replay starts: the logged "init" snapshot, or the current state
+ * with the picks cleared (sessions created before the log existed).
+ */
+export function initialReplayState(entries: DraftLogEntry[], current: any): any {
+  if (entries[0]?.op === "init") return entries[0].payload.state;
+  const cur = current || {};
+  return {
+    ...cur,
+    currentTurn: 0,
+    picks: (cur.picks || []).map(() => null),
+    blueLocked: false,
+    redLocked: false,
+  };
+}
+
+/**
+ * Rebuild the state from the log.
+ *  - uptoSeq:  stop after the entry with this seq
+ *  - uptoTurn: stop before the first entry that moves currentTurn past it
+ */
+export function replayDraft(
+  initial: any,
+  entries: DraftLogEntry[],
+  equipKey: "lightconeId" | "wengineId",
+  opts: { uptoSeq?: number; uptoTurn?: number } = {}
+): { state: any; appliedThrough: number | null } {
+  let state = cloneState(initial);
+  let appliedThrough: number | null = null;
+
+  for (const e of entries) {
+    if (opts.uptoSeq != null && e.seq > opts.uptoSeq) break;
+    if (
+      opts.uptoTurn != null &&
+      !SNAPSHOT_OPS.has(e.op) &&
+      e.turnAfter > opts.uptoTurn
+    ) {
+      break;
+    }
+    state = applyLogEntry(state, e, equipKey);
+    appliedThrough = e.seq;
+  }
+
+  return { state, appliedThrough };
+}
@@ -0,0 +1,194 @@
+// utils/draftPubSub.ts
+// Cross-instance fan-out for the SSE hubs (draft sessions, series) over
+// Postgres LISTEN/NOTIFY. Every instance keeps one long-lived pool connection
+// that listens on a shared channel; events pushed on one instance are
+// replayed to the SSE clients of all the others.
+//
+// The same connection holds the advisory locks that decide which instance
+// runs a session's timer ticker, so a crashed instance frees its tickers as
+// soon as Postgres notices the connection is gone. `withAdvisoryLock` covers
+// one-shot work (series / bracket advancement) that must not run twice at once.
+import type { PoolClient } from "pg";
+import { pool } from "../db";
+import { genKey } from "./genKey";
+import { DraftGame } from "./draftEvents";
+
+const CHANNEL = "draft_hub";
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_BYTES = 7900;
+const RECONNECT_MS = 5_000;
+const LOCK_RETRY_MS = 50;
+
+export const INSTANCE_ID = genKey(12);
+
+/** Which hub an event belongs to: a game's draft sessions, or series */
+export type HubTopic = DraftGame | "series";
+
+/**
+ * `payload` is left out for events receivers should rebuild themselves
+ * (session snapshots, anything too large for NOTIFY).
+ */
+export type HubEvent = { topic: HubTopic; key: string; event: string; payload?: any };
+
+type Handler = (ev: HubEvent) => void | Promise<void>;
+const handlers = new Map<HubTopic, Handler>();
+
+let listener: PoolClient | null = null;
+let connecting: Promise<PoolClient | null> | null = null;
+let reconnectTimer: NodeJS.Timeout | null = null;
+
+// ticker locks this instance holds, by name
+const held = new Set<string>();
+
+function onNotification(msg: { channel: string; payload?: string }) {
+  if (msg.channel !== CHANNEL || !msg.payload) return;
+  let ev: HubEvent & { from?: string };
+  try {
+    ev = JSON.parse(msg.payload);
+  } catch {
+    return;
+  }
+  if (ev.from === INSTANCE_ID) return; // already pushed locally
+  const fn = handlers.get(ev.topic);
+  if (!fn) return;
+  const { from: _from, ...rest } = ev;
+  Promise.resolve(fn(rest)).catch((e) => console.error("draft hub listener failed:", e));
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer) return;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    void connect();
+  }, RECONNECT_MS);
+}
+
+async function tryLock(c: PoolClient, name: string): Promise<boolean> {
+  const q = await c.query(`SELECT pg_try_advisory_lock(hashtext($1::text)) AS ok`, [name]);
+  return q.rows[0]?.ok === true;
+}
+
+function connect(): Promise<PoolClient | null> {
+  if (listener) return Promise.resolve(listener);
+  if (connecting) return connecting;
+
+  connecting = (async () => {
+    let c: PoolClient | null = null;
+    try {
+      c = await pool.connect();
+      const client = c;
+      let dropped = false;
+      const drop = (err?: Error) => {
+        if (dropped) return;
+        dropped = true;
+        if (err) console.error("draft hub connection lost:", err);
+        if (listener === client) listener = null;
+        client.release(true);
+        scheduleReconnect();
+      };
+      client.on("notification", onNotification);
+      client.on("error", drop);
+      client.on("end", () => drop());
+
+      await client.query(`LISTEN ${CHANNEL}`);
+      listener = client;
+
+      // locks died with the previous connection; take back whichever are still free
+      for (const name of [...held]) {
+        if (!(await tryLock(client, name))) held.delete(name);
+      }
+      return client;
+    } catch (e) {
+      console.error("draft hub connect failed:", e);
+      c?.release(true);
+      scheduleReconnect();
+      return null;
+    } finally {
+      connecting = null;
+    }
+  })();
+  return connecting;
+}
+
+/** Receive events pushed by other instances for one topic */
+export function onHubEvent(topic: HubTopic, fn: Handler) {
+  handlers.set(topic, fn);
+  void connect();
+}
+
+/** Broadcast an event to the other instances; oversized payloads are dropped (receivers rebuild) */
+export async function publishHubEvent(ev: HubEvent) {
+  let body = JSON.stringify({ ...ev, from: INSTANCE_ID });
+  if (Buffer.byteLength(body) > MAX_NOTIFY_BYTES) {
+    body = JSON.stringify({ topic: ev.topic, key: ev.key, event: ev.event, from: INSTANCE_ID });
+  }
+  try {
+    await pool.query(`SELECT pg_notify($1::text, $2::text)`, [CHANNEL, body]);
+  } catch (e) {
+    console.error("draft hub publish failed:", e);
+  }
+}
+
+/* ───────────────── Ticker ownership ───────────────── */
+
+/** Try to become the instance that runs the ticker `name`; false while another one does */
+export async function claimTicker(name: string): Promise<boolean> {
+  if (held.has(name)) return true;
+  const c = await connect();
+  if (!c) return false;
+  try {
+    if (!(await tryLock(c, name))) return false;
+    held.add(name);
+    return true;
+  } catch (e) {
+    console.error("ticker claim failed:", e);
+    return false;
+  }
+}
+
+/** Still the owner? Ownership is lost when the hub connection drops and someone else claims it */
+export function holdsTicker(name: string): boolean {
+  return held.has(name);
+}
+
+export async function releaseTicker(name: string) {
+  if (!held.delete(name)) return;
+  const c = listener;
+  if (!c) return;
+  try {
+    await c.query(`SELECT pg_advisory_unlock(hashtext($1::text))`, [name]);
+  } catch (e) {
+    console.error("ticker release failed:", e);
+  }
+}
+
+/* ───────────────── One-at-a-time work ───────────────── */
+
+/**
+ * Run `fn` while holding the advisory lock `name` on its own connection, so
+ * only one call per name runs across all instances. Waits by polling, without
+ * holding a connection, while someone else has it.
+ */
+export async function withAdvisoryLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  for (;;) {
+    const c = await pool.connect();
+    let locked = false;
+    let broken = false;
+    try {
+      locked = await tryLock(c, name);
+      if (locked) return await fn();
+    } finally {
+      if (locked) {
+        try {
+          await c.query(`SELECT pg_advisory_unlock(hashtext($1::text))`, [name]);
+        } catch (e) {
+          // dropping the connection frees the lock too
+          console.error("advisory unlock failed:", e);
+          broken = true;
+        }
+      }
+      c.release(broken);
+    }
+    await new Promise((r) => setTimeout(r, LOCK_RETRY_MS));
+  }
+}
@@ -0,0 +1,112 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_PENALTY_PER_POINT,
+  applyScoreConfirm,
+  applyScoreReport,
+  computeResult,
+  forfeitResult,
+  sanitizeScores,
+} from "./draftResult";
+import { buildRawData } from "./rankedMatch";
+
+test("HSR penalties are cycles added to the cycle total", () => {
+  // 1.5 points over at the default rate → 2 cycles (teamCost rounds to whole units)
+  const penalty = Math.round(1.5 * DEFAULT_PENALTY_PER_POINT.hsr);
+  const r = computeResult("hsr", [3, 4], [4, 4], { B: penalty, R: 0 }, "confirmed");
+  assert.deepEqual(r.blue, { scores: [3, 4], raw: 7, penalty: 2, final: 9 });
+  assert.equal(r.red?.final, 8);
+  assert.equal(r.winner, "R");
+});
+
+test("ZZZ penalties are points taken off", () => {
+  const r = computeResult("zzz", [30000, 28000], [29000, 27000], { B: 2500, R: 0 }, "admin");
+  assert.equal(r.blue?.final, 55500);
+  assert.equal(r.red?.final, 56000);
+  assert.equal(r.winner, "R");
+});
+
+test("equal finals are a draw", () => {
+  const r = computeResult("hsr", [5, 5], [4, 5], { B: 0, R: 1 }, "confirmed");
+  assert.equal(r.winner, null);
+});
+
+test("the ranked row carries the cycle penalty as a whole number", () => {
+  const state = {
+    draftSequence: ["BB", "RR", "B", "R"],
+    picks: [
+      { characterCode: "acheron" },
+      { characterCode: "kafka" },
+      { characterCode: "firefly", eidolon: 2, superimpose: 1 },
+      { characterCode: "jingliu", eidolon: 0, superimpose: 5 },
+    ],
+  };
+  const result = computeResult("hsr", [6, 7], [5, 5], { B: 0, R: 3 }, "confirmed");
+  const raw = buildRawData("k", state, [], result, ["b1", "b1"], ["r1", "r2"], { r1: "Red" });
+  assert.equal(raw.red_penalty, 3);
+  assert.ok(Number.isInteger(raw.red_penalty));
+  assert.equal(raw.blue_penalty, 0);
+  assert.equal(raw.winner, "red");
+  assert.deepEqual(raw.red_team.map((m) => m.cycles), [5, 5]);
+  assert.deepEqual(raw.blue_bans, [{ code: "acheron" }]);
+});
+
+/** A finished two-half draft, nothing reported yet */
+const done = () => ({ draftSequence: ["B", "R"], currentTurn: 2, blueScores: [0, 0], redScores: [0, 0] });
+
+test("matching reports confirm the score", () => {
+  const st: any = done();
+  const first = applyScoreReport(st, "B", { blueScores: [3, 4], redScores: [5, 5] }, 1);
+  assert.ok(first.ok);
+  assert.equal(st.scoreStatus, "reported");
+  assert.ok(applyScoreReport(st, "R", { blueScores: ["3", 4], redScores: [5, 5] }, 2).ok);
+  assert.equal(st.scoreStatus, "confirmed");
+  assert.equal(st.scoreReports.R.at, 2);
+});
+
+test("the opponent can confirm the report as it stands", () => {
+  const st: any = done();
+  assert.deepEqual(applyScoreConfirm(st, "R", 1), {
+    ok: false,
+    status: 409,
+    error: "No opponent report to confirm",
+  });
+  applyScoreReport(st, "B", { blueScores: [3, 4], redScores: [5, 5] }, 1);
+  const out = applyScoreConfirm(st, "R", 2);
+  assert.ok(out.ok);
+  assert.deepEqual(out.ok && out.logPayload, { blueScores: [3, 4], redScores: [5, 5], status: "confirmed" });
+  assert.deepEqual(st.scoreReports.R, { blueScores: [3, 4], redScores: [5, 5], at: 2 });
+});
+
+test("mismatching reports open a dispute that blocks further reports", () => {
+  const st: any = done();
+  applyScoreReport(st, "B", { blueScores: [3, 4], redScores: [5, 5] }, 1);
+  applyScoreReport(st, "R", { blueScores: [3, 4], redScores: [5, 6] }, 2);
+  assert.equal(st.scoreStatus, "disputed");
+  for (const out of [
+    applyScoreReport(st, "B", { blueScores: [3, 4], redScores: [5, 6] }, 3),
+    applyScoreConfirm(st, "B", 3),
+  ]) {
+    assert.deepEqual(out, { ok: false, status: 409, error: "Score disputed; awaiting admin" });
+  }
+});
+
+test("reports need a finished draft and one score per half", () => {
+  assert.deepEqual(applyScoreReport({ ...done(), currentTurn: 1 }, "B", {}, 1), {
+    ok: false,
+    status: 409,
+    error: "Draft not complete",
+  });
+  const bad = applyScoreReport(done(), "B", { blueScores: [3], redScores: [5, 5] }, 1);
+  assert.deepEqual(bad, { ok: false, status: 400, error: "Invalid scores" });
+  assert.equal(sanitizeScores([1, -1], 2), null);
+  assert.equal(sanitizeScores([1, "x"], 2), null);
+  assert.deepEqual(sanitizeScores(["1.5", 2], 2), [1.5, 2]);
+});
+
+test("a forfeit hands the win to the other side without scores", () => {
+  const r = forfeitResult("R");
+  assert.equal(r.winner, "B");
+  assert.equal(r.via, "forfeit");
+  assert.equal(r.blue, null);
+});
@@ -0,0 +1,121 @@
+// utils/draftResult.ts
+// Score reports and the final, penalty-adjusted result of a draft session.
+//
+// HSR scores are cycles (lower wins, penalty is added);
+// ZZZ scores are points (higher wins, penalty is subtracted).
+// Penalties come from teamCost already in that unit (whole cycles / points),
+// so they go onto the raw total as they are.
+
+/**
+ * Penalty per cost point over the limit, in the game's score unit. Stored
+ * per session as `penalty_per_point`; these apply when a session has none.
+ */
+export const DEFAULT_PENALTY_PER_POINT = { hsr: 1, zzz: 2500 } as const;
+
+export type ScoreReport = { blueScores: number[]; redScores: number[]; at: number };
+
+export type SideResult = {
+  scores: number[];
+  raw: number;
+  penalty: number;
+  final: number;
+};
+
+export type DraftResult = {
+  blue: SideResult | null;
+  red: SideResult | null;
+  winner: "B" | "R" | null; // null = draw
+  via: "confirmed" | "admin" | "forfeit";
+  forfeitedBy?: "B" | "R";
+  decidedAt: string;
+};
+
+/** Non-negative finite numbers, exactly `len` of them */
+export function sanitizeScores(raw: any, len: number): number[] | null {
+  if (!Array.isArray(raw) || raw.length !== len || len === 0) return null;
+  const nums = raw.map((n) => Number(n));
+  if (nums.some((n) => !Number.isFinite(n) || n < 0)) return null;
+  return nums;
+}
+
+export function reportsMatch(a?: ScoreReport | null, b?: ScoreReport | null): boolean {
+  if (!a || !b) return false;
+  const eq = (x: number[], y: number[]) =>
+    x.length === y.length && x.every((n, i) => n === y[i]);
+  return eq(a.blueScores, b.blueScores) && eq(a.redScores, b.redScores);
+}
+
+export type ScoreOutcome =
+  | { ok: true; logPayload: { blueScores: number[]; redScores: number[]; status: string } }
+  | { ok: false; status: number; error: string };
+
+const scoreFail = (status: number, error: string): ScoreOutcome => ({ ok: false, status, error });
+
+/**
+ * A captain reports both sides' scores (mutates `st`). Matching the
+ * opponent's report confirms, a mismatch opens a dispute for an admin.
+ */
+export function applyScoreReport(st: any, side: "B" | "R", body: any, now: number): ScoreOutcome {
+  if (st.currentTurn < st.draftSequence.length) return scoreFail(409, "Draft not complete");
+  if (st.scoreStatus === "disputed") return scoreFail(409, "Score disputed; awaiting admin");
+
+  const len = st.blueScores.length;
+  const blueScores = sanitizeScores(body?.blueScores, len);
+  const redScores = sanitizeScores(body?.redScores, len);
+  if (!blueScores || !redScores) return scoreFail(400, "Invalid scores");
+
+  const report: ScoreReport = { blueScores, redScores, at: now };
+  const other = st.scoreReports?.[side === "B" ? "R" : "B"];
+  st.scoreReports = { ...(st.scoreReports || {}), [side]: report };
+  st.scoreStatus = !other ? "reported" : reportsMatch(report, other) ? "confirmed" : "disputed";
+  return { ok: true, logPayload: { blueScores, redScores, status: st.scoreStatus } };
+}
+
+/** A captain accepts the opponent's report as their own (mutates `st`) */
+export function applyScoreConfirm(st: any, side: "B" | "R", now: number): ScoreOutcome {
+  if (st.scoreStatus === "disputed") return scoreFail(409, "Score disputed; awaiting admin");
+  const other: ScoreReport | undefined = st.scoreReports?.[side === "B" ? "R" : "B"];
+  if (!other) return scoreFail(409, "No opponent report to confirm");
+
+  st.scoreReports = { ...st.scoreReports, [side]: { ...other, at: now } };
+  st.scoreStatus = "confirmed";
+  return {
+    ok: true,
+    logPayload: { blueScores: other.blueScores, redScores: other.redScores, status: "confirmed" },
+  };
+}
+
+export function computeResult(
+  game: "hsr" | "zzz",
+  blueScores: number[],
+  redScores: number[],
+  penalties: { B: number; R: number },
+  via: "confirmed" | "admin"
+): DraftResult {
+  const lowerWins = game === "hsr";
+  const side = (scores: number[], penalty: number): SideResult => {
+    const raw = scores.reduce((a, n) => a + n, 0);
+    return { scores, raw, penalty, final: lowerWins ? raw + penalty : raw - penalty };
+  };
+  const blue = side(blueScores, penalties.B);
+  const red = side(redScores, penalties.R);
+
+  let winner: "B" | "R" | null = null;
+  if (blue.final !== red.final) {
+    const blueAhead = lowerWins ? blue.final < red.final : blue.final > red.final;
+    winner = blueAhead ? "B" : "R";
+  }
+
+  return { blue, red, winner, via, decidedAt: new Date().toISOString() };
+}
+
+export function forfeitResult(forfeitedBy: "B" | "R"): DraftResult {
+  return {
+    blue: null,
+    red: null,
+    winner: forfeitedBy === "B" ? "R" : "B",
+    via: "forfeit",
+    forfeitedBy,
+    decidedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  HSR_SEQUENCES,
+  buildInitialState,
+  isKnownSequence,
+  keepServerOwned,
+  sameSequence,
+} from "./draftSequences";
+
+test("the initial state comes from the server template, whatever the client sent", () => {
+  const st = buildInitialState("hsr", "2ban", {
+    draftSequence: ["B", "R"],
+    currentTurn: 5,
+    picks: [{ characterCode: "kafka" }],
+    timerEnabled: true,
+  });
+  assert.deepEqual(st.draftSequence, HSR_SEQUENCES["2ban"].draftSequence);
+  assert.equal(st.currentTurn, 0);
+  assert.equal(st.picks.length, st.draftSequence.length);
+  assert.ok(st.picks.every((p: any) => p === null));
+  assert.deepEqual(st.blueScores, [0, 0]);
+  // non-draft fields ride along
+  assert.equal(st.timerEnabled, true);
+});
+
+test("unknown modes have no state", () => {
+  assert.equal(buildInitialState("hsr", "3v3"), null);
+  assert.equal(buildInitialState("zzz", "toString"), null);
+});
+
+test("score slots follow the mode", () => {
+  assert.deepEqual(buildInitialState("zzz", "3v3").redScores, [0, 0, 0]);
+  assert.deepEqual(buildInitialState("zzz", "3v3", { redScores: [1, 2] }).redScores, [0, 0, 0]);
+  assert.deepEqual(buildInitialState("zzz", "2v2", { redScores: ["7", 8] }).redScores, [7, 8]);
+});
+
+test("blind sessions turn every adjacent ban pair into a blind phase", () => {
+  const st = buildInitialState("hsr", "6ban", {}, { blind: true });
+  assert.deepEqual(st.draftSequence.slice(0, 4), ["BX", "RX", "BX", "RX"]);
+  assert.deepEqual(st.draftSequence.slice(8, 12), ["BX", "RX", "BX", "RX"]);
+  assert.ok(!st.draftSequence.includes("BB"));
+  assert.ok(isKnownSequence("hsr", "6ban", st.draftSequence));
+  // a blind sequence sent back by a client keeps the session blind
+  assert.deepEqual(buildInitialState("hsr", "6ban", st).draftSequence, st.draftSequence);
+});
+
+test("only the canonical sequences are known", () => {
+  const seq = [...HSR_SEQUENCES["3ban"].draftSequence];
+  assert.ok(isKnownSequence("hsr", "3ban", seq));
+  seq[2] = "R";
+  assert.ok(!isKnownSequence("hsr", "3ban", seq));
+  assert.ok(!isKnownSequence("zzz", "3ban", HSR_SEQUENCES["3ban"].draftSequence));
+  assert.ok(!sameSequence("BB", ["BB"]));
+});
+
+test("server-owned fields never come from the client", () => {
+  const incoming = { currentTurn: 3, scoreStatus: "confirmed", forfeitedBy: "B" };
+  assert.deepEqual(keepServerOwned(incoming, { scoreStatus: "reported" }), {
+    currentTurn: 3,
+    scoreStatus: "reported",
+  });
+  assert.ok(!("scoreStatus" in buildInitialState("hsr", "2ban", incoming)));
+});
@@ -0,0 +1,183 @@
+// utils/draftSequences.ts
+// Canonical draft sequences. The server owns these; clients no longer decide
+// the order of picks/bans.
+//
+// Tokens:
+//   "B" / "R"   → pick for Blue / Red
+//   "BB" / "RR" → ban for Blue / Red
+//   "BX" / "RX" → blind ban for Blue / Red; always an adjacent pair, both
+//                 sides submit at once and the server reveals them together
+
+export type HsrMode = "2ban" | "3ban" | "6ban";
+export type ZzzMode = "2v2" | "3v3";
+
+type SequenceTemplate = {
+  draftSequence: readonly string[];
+  /** number of halves scored per side (blueScores/redScores length) */
+  scoreSlots: number;
+};
+
+export const HSR_SEQUENCES: Record<HsrMode, SequenceTemplate> = {
+  "2ban": {
+    draftSequence: [
+      "BB", "RR",
+      "B", "R", "R", "B",
+      "R", "B", "B", "R",
+      "RR", "BB",
+      "B", "R", "R", "B",
+      "R", "B", "B", "R",
+    ],
+    scoreSlots: 2,
+  },
+  "3ban": {
+    draftSequence: [
+      "BB", "RR",
+      "B", "R", "R", "B",
+      "RR", "BB",
+      "R", "B", "B", "R",
+      "B", "R", "R", "B",
+      "BB", "RR",
+      "R", "B", "B", "R",
+    ],
+    scoreSlots: 2,
+  },
+  "6ban": {
+    draftSequence: [
+      "BB", "RR", "BB", "RR",
+      "B", "R", "R", "B",
+      "RR", "BB", "RR", "BB",
+      "R", "B", "B", "R",
+      "B", "R", "R", "B",
+      "BB", "RR", "BB", "RR",
+      "R", "B", "B", "R",
+    ],
+    scoreSlots: 2,
+  },
+};
+
+export const ZZZ_SEQUENCES: Record<ZzzMode, SequenceTemplate> = {
+  "2v2": {
+    draftSequence: [
+      "BB", "RR",
+      "B", "R", "R", "B",
+      "R", "B", "B", "R",
+      "RR", "BB",
+      "B", "R", "R", "B",
+    ],
+    scoreSlots: 2,
+  },
+  "3v3": {
+    draftSequence: [
+      "BB", "RR",
+      "B", "R", "R", "B",
+      "R", "B", "B", "R",
+      "RR", "BB",
+      "B", "R", "R", "B",
+      "R", "B", "B", "R",
+      "B", "R",
+    ],
+    scoreSlots: 3,
+  },
+};
+
+function templateFor(game: "hsr" | "zzz", mode: string): SequenceTemplate | null {
+  const table: Record<string, SequenceTemplate> =
+    game === "hsr" ? HSR_SEQUENCES : ZZZ_SEQUENCES;
+  return Object.prototype.hasOwnProperty.call(table, mode) ? table[mode] : null;
+}
+
+/** Every adjacent Blue/Red ban pair becomes a blind ban phase ("BX", "RX") */
+export function toBlindSequence(seq: readonly string[]): string[] {
+  const out = [...seq];
+  for (let i = 0; i + 1 < out.length; i++) {
+    const pair = out[i] + out[i + 1];
+    if (pair === "BBRR" || pair === "RRBB") {
+      out[i] = "BX";
+      out[i + 1] = "RX";
+      i++;
+    }
+  }
+  return out;
+}
+
+/** True when `seq` is exactly the canonical sequence (or its blind variant) for this mode */
+export function isKnownSequence(
+  game: "hsr" | "zzz",
+  mode: string,
+  seq: unknown
+): boolean {
+  const tpl = templateFor(game, mode);
+  return (
+    !!tpl &&
+    (sameSequence(seq, tpl.draftSequence) ||
+      sameSequence(seq, toBlindSequence(tpl.draftSequence)))
+  );
+}
+
+/**
+ * State fields only the server writes: the score flow, series carry-over
+ * bans, forfeits and hidden blind submissions. Clients never set them.
+ */
+const SERVER_OWNED_KEYS = [
+  "scoreReports",
+  "scoreStatus",
+  "sideBans",
+  "forfeitedBy",
+  "blindPending",
+  "blindSubmitted",
+] as const;
+
+/** `incoming` with the server-owned fields taken from `stored` (dropped where it has none) */
+export function keepServerOwned(incoming: any, stored: any): any {
+  const out = { ...incoming };
+  for (const k of SERVER_OWNED_KEYS) {
+    if (stored && stored[k] !== undefined) out[k] = stored[k];
+    else delete out[k];
+  }
+  return out;
+}
+
+/**
+ * Fresh server-generated draft state for a mode. Any extra (non-draft) fields
+ * on `incoming` (timer settings, etc.) are kept, server-owned ones dropped;
+ * draftSequence, picks and currentTurn are always generated here. `blind` (or an incoming blind
+ * sequence) turns the ban pairs into blind ban phases.
+ */
+export function buildInitialState(
+  game: "hsr" | "zzz",
+  mode: string,
+  incoming?: any,
+  opts: { blind?: boolean } = {}
+): any | null {
+  const tpl = templateFor(game, mode);
+  if (!tpl) return null;
+  const blindSeq = toBlindSequence(tpl.draftSequence);
+  const blind = !!opts.blind || sameSequence(incoming?.draftSequence, blindSeq);
+  const draftSequence = blind ? blindSeq : [...tpl.draftSequence];
+
+  const base = incoming && typeof incoming === "object" && !Array.isArray(incoming)
+    ? keepServerOwned(incoming, null)
+    : {};
+
+  const scores = (v: any) =>
+    Array.isArray(v) && v.length === tpl.scoreSlots
+      ? v.map((n: any) => Number(n) || 0)
+      : new Array(tpl.scoreSlots).fill(0);
+
+  return {
+    ...base,
+    draftSequence,
+    currentTurn: 0,
+    picks: new Array(draftSequence.length).fill(null),
+    blueScores: scores(base.blueScores),
+    redScores: scores(base.redScores),
+    blueLocked: false,
+    redLocked: false,
+  };
+}
+
+/** Element-wise equality of two draft sequences */
+export function sameSequence(a: unknown, b: unknown): boolean {
+  if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+  return a.every((tok, i) => tok === b[i]);
+}
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  SeriesGame,
+  blueTeamForGame,
+  carryoverBans,
+  isValidBestOf,
+  sanitizeSeriesRules,
+  seriesScore,
+} from "./draftSeries";
+
+const game = (n: number, blueTeam: "team1" | "team2", winner: "B" | "R" | null, picks: string[]): SeriesGame => ({
+  game: n,
+  sessionKey: `s${n}`,
+  blueTeam,
+  // BB RR then one pick each
+  state: {
+    draftSequence: ["BB", "RR", "B", "R"],
+    picks: picks.map((code) => (code ? { characterCode: code } : null)),
+  },
+  result: winner === null ? null : { winner },
+});
+
+test("best-of is odd and at most 9", () => {
+  assert.deepEqual([1, 3, 5, 7, 9].map(isValidBestOf), [true, true, true, true, true]);
+  assert.deepEqual([0, 2, 11, 1.5].map(isValidBestOf), [false, false, false, false]);
+});
+
+test("sides swap every game only when asked", () => {
+  const swap = sanitizeSeriesRules({ swapSides: true, pickCarryover: "bogus" });
+  assert.deepEqual(swap, { pickCarryover: "none", swapSides: true });
+  assert.deepEqual([1, 2, 3].map((n) => blueTeamForGame(swap, n)), ["team1", "team2", "team1"]);
+  assert.equal(blueTeamForGame(sanitizeSeriesRules({}), 2), "team1");
+});
+
+test("the score follows the teams across side swaps", () => {
+  const games = [
+    game(1, "team1", "B", []), // team1
+    game(2, "team2", "B", []), // team2
+    game(3, "team1", "R", []), // team2
+  ];
+  assert.deepEqual(seriesScore(5, games), { score: { team1: 1, team2: 2 }, winner: null, need: 3 });
+  assert.equal(seriesScore(3, games).winner, "team2");
+  // draws and undecided games count for nobody
+  assert.deepEqual(seriesScore(3, [game(1, "team1", null, [])]).score, { team1: 0, team2: 0 });
+});
+
+test("carry-over bans come from picks only, per the rule", () => {
+  const games = [
+    game(1, "team1", "B", ["acheron", "kafka", "firefly", "jingliu"]),
+    game(2, "team2", "B", ["acheron", "kafka", "robin", "sparkle"]),
+    game(3, "team1", null, ["x", "y", "z", "w"]),
+  ];
+  const all = carryoverBans(sanitizeSeriesRules({ pickCarryover: "all" }), games);
+  assert.deepEqual(all, { team1: ["firefly", "sparkle"], team2: ["jingliu", "robin"] });
+
+  // game 1 won by team1 (blue), game 2 by team2 (blue)
+  const winner = carryoverBans(sanitizeSeriesRules({ pickCarryover: "winner" }), games);
+  assert.deepEqual(winner, { team1: ["firefly"], team2: ["robin"] });
+
+  assert.deepEqual(carryoverBans(sanitizeSeriesRules({}), games), { team1: [], team2: [] });
+});
@@ -0,0 +1,107 @@
+// utils/draftSeries.ts
+// Best-of-N series over draft sessions: score, winner and carry-over bans.
+import { isBanTok, sideOfTok } from "./draftTimer";
+import type { Participant } from "./sideAuth";
+
+/** Ties a newly created session to something bigger (series, bracket, ...) */
+export type SessionLink = {
+  seriesKey?: string;
+  seriesGame?: number;
+  tournamentKey?: string;
+  swissEventKey?: string;
+  /** Opened by the matchmaking queue */
+  matchmaking?: boolean;
+  blueToken?: string;
+  redToken?: string;
+  /** Series carry-over: characters each side may not pick */
+  sideBans?: { B: string[]; R: string[] };
+};
+
+export type CreatedSession = {
+  key: string;
+  url: string;
+  blueToken: string;
+  redToken: string;
+  costProfileId: string | null;
+  costLimit: number;
+  penaltyPerPoint: number;
+  spectatorDelaySeconds: number;
+  participants: Participant[];
+};
+
+/**
+ * Characters a team picked in earlier games that it may no longer pick:
+ *   none   → no carry-over
+ *   winner → picks from games the team won
+ *   all    → every earlier pick of the team
+ */
+export type PickCarryover = "none" | "winner" | "all";
+const CARRYOVER: ReadonlySet<string> = new Set(["none", "winner", "all"]);
+
+export type SeriesRules = {
+  pickCarryover: PickCarryover;
+  swapSides: boolean; // team1 plays Blue in odd games, Red in even ones
+};
+
+export function sanitizeSeriesRules(raw: any): SeriesRules {
+  return {
+    pickCarryover: CARRYOVER.has(raw?.pickCarryover) ? raw.pickCarryover : "none",
+    swapSides: raw?.swapSides === true,
+  };
+}
+
+export const isValidBestOf = (n: number) =>
+  Number.isInteger(n) && n >= 1 && n <= 9 && n % 2 === 1;
+
+/** Which series team plays Blue in game `n` (1-based) */
+export function blueTeamForGame(rules: SeriesRules, n: number): "team1" | "team2" {
+  return rules.swapSides && n % 2 === 0 ? "team2" : "team1";
+}
+
+export type SeriesGame = {
+  game: number;
+  sessionKey: string;
+  blueTeam: "team1" | "team2";
+  state: any;
+  result: { winner: "B" | "R" | null } | null;
+};
+
+const otherTeam = (t: "team1" | "team2") => (t === "team1" ? "team2" : "team1");
+
+/** Series team that won this game, if decided */
+export function gameWinner(g: SeriesGame): "team1" | "team2" | null {
+  const w = g.result?.winner;
+  if (!w) return null;
+  return w === "B" ? g.blueTeam : otherTeam(g.blueTeam);
+}
+
+export function seriesScore(bestOf: number, games: SeriesGame[]) {
+  const score = { team1: 0, team2: 0 };
+  for (const g of games) {
+    const w = gameWinner(g);
+    if (w) score[w]++;
+  }
+  const need = Math.floor(bestOf / 2) + 1;
+  const winner =
+    score.team1 >= need ? "team1" : score.team2 >= need ? "team2" : null;
+  return { score, winner: winner as "team1" | "team2" | null, need };
+}
+
+/** Per-team carry-over bans for the next game */
+export function carryoverBans(rules: SeriesRules, games: SeriesGame[]) {
+  const bans = { team1: new Set<string>(), team2: new Set<string>() };
+  if (rules.pickCarryover === "none") return { team1: [], team2: [] };
+
+  for (const g of games) {
+    if (!g.result) continue;
+    const won = gameWinner(g);
+    const seq: string[] = g.state?.draftSequence || [];
+    (g.state?.picks || []).forEach((p: any, i: number) => {
+      const tok = seq[i] || "";
+      if (!p?.characterCode || isBanTok(tok)) return;
+      const team = sideOfTok(tok) === "B" ? g.blueTeam : otherTeam(g.blueTeam);
+      if (rules.pickCarryover === "all" || won === team) bans[team].add(p.characterCode);
+    });
+  }
+  return { team1: [...bans.team1], team2: [...bans.team2] };
+}
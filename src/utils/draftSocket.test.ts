@@ -0,0 +1,164 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EventEmitter } from "events";
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { MAX_MESSAGE_BYTES, WsConnection, acceptWebSocket, hubSink, socketReply } from "./draftSocket";
+
+/** Socket double: records what the server writes, `feed` plays client bytes */
+class FakeSocket extends EventEmitter {
+  out: (string | Buffer)[] = [];
+  ended = false;
+  write(chunk: string | Buffer) {
+    this.out.push(chunk);
+    return true;
+  }
+  end(chunk?: string | Buffer) {
+    if (chunk !== undefined) this.out.push(chunk);
+    this.ended = true;
+  }
+  destroy() {
+    this.ended = true;
+  }
+  feed(buf: Buffer) {
+    this.emit("data", buf);
+  }
+}
+
+const upgradeReq = (headers: Record<string, string> = {}) =>
+  ({
+    headers: {
+      upgrade: "websocket",
+      "sec-websocket-version": "13",
+      "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+      ...headers,
+    },
+  }) as unknown as IncomingMessage;
+
+/** A client frame: masked unless told otherwise */
+function clientFrame(opcode: number, payload: Buffer | string, opts: { fin?: boolean; masked?: boolean } = {}) {
+  const data = Buffer.from(payload);
+  const fin = opts.fin ?? true;
+  const masked = opts.masked ?? true;
+  const len = data.length;
+  const head =
+    len < 126 ? Buffer.from([0, len]) : Buffer.from([0, 126, (len >> 8) & 0xff, len & 0xff]);
+  head[0] = (fin ? 0x80 : 0) | opcode;
+  if (!masked) return Buffer.concat([head, data]);
+  head[1] |= 0x80;
+  const mask = Buffer.from([1, 2, 3, 4]);
+  const body = Buffer.from(data.map((b, i) => b ^ mask[i & 3]));
+  return Buffer.concat([head, mask, body]);
+}
+
+/** Close code of the last frame the server sent, if it was a close frame */
+function closeCode(sock: FakeSocket): number | null {
+  const last = sock.out[sock.out.length - 1];
+  if (!Buffer.isBuffer(last) || (last[0] & 0x0f) !== 0x8) return null;
+  return last.readUInt16BE(2);
+}
+
+function connect() {
+  const sock = new FakeSocket();
+  const conn = acceptWebSocket(upgradeReq(), sock as unknown as Duplex, Buffer.alloc(0))!;
+  const received: string[] = [];
+  conn.onMessage((text) => received.push(text));
+  return { sock, conn, received };
+}
+
+test("the handshake answers with the RFC 6455 accept key", () => {
+  const { sock, conn } = connect();
+  assert.ok(conn.open);
+  assert.match(String(sock.out[0]), /^HTTP\/1\.1 101 /);
+  assert.match(String(sock.out[0]), /Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK\+xOo=\r\n/);
+  conn.close();
+});
+
+test("anything but a version-13 websocket upgrade is refused", () => {
+  const sock = new FakeSocket();
+  const conn = acceptWebSocket(upgradeReq({ "sec-websocket-version": "8" }), sock as unknown as Duplex, Buffer.alloc(0));
+  assert.equal(conn, null);
+  assert.match(String(sock.out[0]), /^HTTP\/1\.1 400 /);
+  assert.ok(sock.ended);
+});
+
+test("text messages arrive whole, fragmented or split across chunks", () => {
+  const { sock, conn, received } = connect();
+  const whole = clientFrame(0x1, '{"op":"pick"}');
+  sock.feed(whole.subarray(0, 3));
+  sock.feed(whole.subarray(3));
+  sock.feed(Buffer.concat([clientFrame(0x1, "hel", { fin: false }), clientFrame(0x0, "lo")]));
+  assert.deepEqual(received, ['{"op":"pick"}', "hello"]);
+  conn.close();
+});
+
+test("protocol violations close the socket with the matching code", () => {
+  const cases: [Buffer, number][] = [
+    [clientFrame(0x1, "hi", { masked: false }), 1002],
+    [clientFrame(0x1, "x".repeat(MAX_MESSAGE_BYTES + 1)), 1009],
+    [clientFrame(0x2, "bin"), 1003],
+    [clientFrame(0x0, "orphan"), 1002],
+  ];
+  for (const [frame, code] of cases) {
+    const { sock, conn } = connect();
+    sock.feed(frame);
+    assert.equal(conn.open, false);
+    assert.equal(closeCode(sock), code);
+  }
+});
+
+test("pings are answered and a flood trips the rate limit", () => {
+  const { sock, conn } = connect();
+  sock.feed(clientFrame(0x9, "p"));
+  const pong = sock.out[sock.out.length - 1] as Buffer;
+  assert.equal(pong[0] & 0x0f, 0xa);
+  assert.equal(pong.subarray(2).toString(), "p");
+
+  for (let i = 0; i < 60 && conn.open; i++) sock.feed(clientFrame(0x1, "spam"));
+  assert.equal(conn.open, false);
+  assert.equal(closeCode(sock), 1008);
+});
+
+/** Connection double for the sink / reply wrappers */
+function fakeConn() {
+  const sent: any[] = [];
+  let open = true;
+  const conn: WsConnection = {
+    send: (text) => sent.push(JSON.parse(text)),
+    close: () => {
+      open = false;
+    },
+    get open() {
+      return open;
+    },
+    onMessage: () => {},
+    onClose: () => {},
+  };
+  return { conn, sent };
+}
+
+test("hubSink turns SSE frames into event messages and never throws", () => {
+  const { conn, sent } = fakeConn();
+  const sink = hubSink(conn);
+  sink.write('id: abc.3\nevent: update\ndata: {"v":1}\n\n');
+  sink.write(": keep-alive\n\n");
+  sink.write("event: note\ndata: line one\ndata: line two\n\n");
+  sink.write("event: odd\ndata: {broken\n\n");
+  assert.deepEqual(sent, [
+    { type: "event", id: "abc.3", event: "update", data: { v: 1 } },
+    { type: "event", event: "note", data: "line one\nline two" },
+    { type: "event", event: "odd", data: "{broken" },
+  ]);
+  conn.close();
+  assert.ok(sink.writableEnded && sink.destroyed);
+});
+
+test("socket replies carry the request ref and status", () => {
+  const { conn, sent } = fakeConn();
+  socketReply(conn, "r1").status(409).json({ error: "Stale" });
+  socketReply(conn, undefined).json({ ok: true });
+  assert.deepEqual(sent, [
+    { type: "result", ref: "r1", status: 409, body: { error: "Stale" } },
+    { type: "result", ref: null, status: 200, body: { ok: true } },
+  ]);
+});
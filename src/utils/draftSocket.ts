@@ -0,0 +1,286 @@
+// utils/draftSocket.ts
+// Minimal RFC 6455 WebSocket server side for the drafting transport: the
+// upgrade handshake, text frames (fragmented or not), ping/pong and close.
+// No extensions, no binary messages.
+//
+// Each connection is capped: draft actions are a few hundred bytes, so
+// messages over MAX_MESSAGE_BYTES are refused; frames draw from a token bucket
+// (same pace as the HTTP action limiter) and a peer that floods it is closed;
+// the server pings every PING_INTERVAL_MS and drops a peer that missed a pong.
+//
+// `hubSink` wraps a connection so the spectator routers' SSE hub can treat it
+// like any other stream: SSE frames written to it go out as JSON messages
+// { type: "event", id, event, data }.
+import { createHash } from "crypto";
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+export const MAX_MESSAGE_BYTES = 4 * 1024;
+const BUCKET_SIZE = 40;
+const BUCKET_REFILL_PER_SEC = 20;
+const PING_INTERVAL_MS = 30_000;
+
+export type WsConnection = {
+  send(text: string): void;
+  close(code?: number, reason?: string): void;
+  readonly open: boolean;
+  onMessage(fn: (text: string) => void): void;
+  onClose(fn: () => void): void;
+};
+
+/** What the SSE hub writes to: an express Response, or a socket via hubSink */
+export type StreamSink = {
+  write(chunk: string): unknown;
+  readonly writableEnded: boolean;
+  readonly destroyed: boolean;
+  on(event: "close", fn: () => void): unknown;
+};
+
+/** How the actions handler answers: an express Response, or a socket reply */
+export type ActionReply = {
+  status(code: number): { json(body: any): unknown };
+  json(body: any): unknown;
+};
+
+function frame(opcode: number, payload: Buffer): Buffer {
+  const len = payload.length;
+  let head: Buffer;
+  if (len < 126) {
+    head = Buffer.from([0x80 | opcode, len]);
+  } else if (len < 0x10000) {
+    head = Buffer.alloc(4);
+    head[0] = 0x80 | opcode;
+    head[1] = 126;
+    head.writeUInt16BE(len, 2);
+  } else {
+    head = Buffer.alloc(10);
+    head[0] = 0x80 | opcode;
+    head[1] = 127;
+    head.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([head, payload]);
+}
+
+/** Reply 400 to an upgrade we won't accept */
+export function rejectUpgrade(socket: Duplex, status = 400, message = "Bad Request") {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+}
+
+/** Complete the handshake; null (and the socket answered) when it isn't a valid upgrade */
+export function acceptWebSocket(
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+): WsConnection | null {
+  const key = req.headers["sec-websocket-key"];
+  if (
+    typeof key !== "string" ||
+    String(req.headers.upgrade || "").toLowerCase() !== "websocket" ||
+    req.headers["sec-websocket-version"] !== "13"
+  ) {
+    rejectUpgrade(socket);
+    return null;
+  }
+
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let open = true;
+  let buf: Buffer = head && head.length ? Buffer.from(head) : Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentBytes = 0;
+  const messageFns: ((text: string) => void)[] = [];
+  const closeFns: (() => void)[] = [];
+
+  let tokens = BUCKET_SIZE;
+  let refilledAt = Date.now();
+  const takeToken = () => {
+    const now = Date.now();
+    tokens = Math.min(BUCKET_SIZE, tokens + ((now - refilledAt) / 1000) * BUCKET_REFILL_PER_SEC);
+    refilledAt = now;
+    if (tokens < 1) return false;
+    tokens -= 1;
+    return true;
+  };
+
+  // heartbeat: a pong (or any frame) since the last ping keeps the socket
+  let alive = true;
+  const heartbeat = setInterval(() => {
+    if (!alive) {
+      socket.destroy();
+      return finish();
+    }
+    alive = false;
+    socket.write(frame(0x9, Buffer.alloc(0)));
+  }, PING_INTERVAL_MS);
+  heartbeat.unref();
+
+  const finish = () => {
+    if (!open) return;
+    open = false;
+    clearInterval(heartbeat);
+    for (const fn of closeFns) fn();
+  };
+
+  const close = (code = 1000, reason = "") => {
+    if (!open) return;
+    const body = Buffer.alloc(2 + Buffer.byteLength(reason));
+    body.writeUInt16BE(code, 0);
+    body.write(reason, 2);
+    socket.end(frame(0x8, body));
+    finish();
+  };
+
+  const handleFrame = (fin: boolean, opcode: number, payload: Buffer) => {
+    alive = true;
+    if (!takeToken()) return close(1008, "Rate limit exceeded");
+    switch (opcode) {
+      case 0x0: // continuation
+      case 0x1: // text
+        if (opcode === 0x1 && fragments.length) return close(1002, "Expected continuation");
+        if (opcode === 0x0 && !fragments.length) return close(1002, "Unexpected continuation");
+        fragments.push(payload);
+        fragmentBytes += payload.length;
+        if (fragmentBytes > MAX_MESSAGE_BYTES) return close(1009, "Message too big");
+        if (!fin) return;
+        {
+          const text = Buffer.concat(fragments).toString("utf8");
+          fragments = [];
+          fragmentBytes = 0;
+          for (const fn of messageFns) fn(text);
+        }
+        return;
+      case 0x2:
+        return close(1003, "Text messages only");
+      case 0x8: // the peer is closing: answer and hang up
+        return close();
+      case 0x9:
+        socket.write(frame(0xa, payload));
+        return;
+      case 0xa:
+        return;
+      default:
+        return close(1002, "Unknown opcode");
+    }
+  };
+
+  const parse = () => {
+    while (open && buf.length >= 2) {
+      const fin = (buf[0] & 0x80) !== 0;
+      const opcode = buf[0] & 0x0f;
+      const masked = (buf[1] & 0x80) !== 0;
+      let len = buf[1] & 0x7f;
+      let offset = 2;
+
+      if (len === 126) {
+        if (buf.length < 4) return;
+        len = buf.readUInt16BE(2);
+        offset = 4;
+      } else if (len === 127) {
+        if (buf.length < 10) return;
+        const big = buf.readBigUInt64BE(2);
+        if (big > BigInt(MAX_MESSAGE_BYTES)) return close(1009, "Message too big");
+        len = Number(big);
+        offset = 10;
+      }
+      if (len > MAX_MESSAGE_BYTES) return close(1009, "Message too big");
+      // control frames carry at most 125 bytes and are never fragmented
+      if (opcode & 0x8 && (len > 125 || !fin)) return close(1002, "Bad control frame");
+      // clients must mask every frame
+      if (!masked) return close(1002, "Unmasked frame");
+      if (buf.length < offset + 4 + len) return;
+
+      const mask = buf.subarray(offset, offset + 4);
+      const payload = Buffer.from(buf.subarray(offset + 4, offset + 4 + len));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      buf = buf.subarray(offset + 4 + len);
+      handleFrame(fin, opcode, payload);
+    }
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buf = buf.length ? Buffer.concat([buf, chunk]) : chunk;
+    parse();
+  });
+  socket.on("close", finish);
+  socket.on("error", finish);
+  parse();
+
+  return {
+    send(text: string) {
+      if (open) socket.write(frame(0x1, Buffer.from(text, "utf8")));
+    },
+    close,
+    get open() {
+      return open;
+    },
+    onMessage(fn) {
+      messageFns.push(fn);
+    },
+    onClose(fn) {
+      closeFns.push(fn);
+    },
+  };
+}
+
+/**
+ * Parse the SSE frames the hub writes and forward them as JSON messages
+ * (comments dropped). Multi-line data is joined as SSE does; data that isn't
+ * JSON goes out as the raw string, so one odd frame never throws into the
+ * hub's broadcast loop.
+ */
+export function hubSink(conn: WsConnection): StreamSink {
+  return {
+    write(chunk: string) {
+      let id: string | undefined;
+      let event = "message";
+      const lines: string[] = [];
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("id: ")) id = line.slice(4);
+        else if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) lines.push(line.slice(6));
+      }
+      if (!lines.length) return true;
+      const raw = lines.join("\n");
+      let data: any = raw;
+      try {
+        data = JSON.parse(raw);
+      } catch {
+        // keep the raw string
+      }
+      conn.send(JSON.stringify({ type: "event", id, event, data }));
+      return true;
+    },
+    get writableEnded() {
+      return !conn.open;
+    },
+    get destroyed() {
+      return !conn.open;
+    },
+    on(_event: "close", fn: () => void) {
+      conn.onClose(fn);
+      return this;
+    },
+  };
+}
+
+/** ActionReply answering one socket message with { type: "result", ref, status, body } */
+export function socketReply(conn: WsConnection, ref: unknown): ActionReply {
+  let status = 200;
+  const reply: ActionReply = {
+    status(code: number) {
+      status = code;
+      return reply;
+    },
+    json(body: any) {
+      conn.send(JSON.stringify({ type: "result", ref: ref ?? null, status, body }));
+    },
+  };
+  return reply;
+}
@@ -0,0 +1,166 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MOVE_GRACE,
+  applyTimeoutPolicy,
+  burnToNow,
+  initTimerFields,
+  isTurnTimedOut,
+  mergeTimerBody,
+  resetGraceForNewTurn,
+} from "./draftTimer";
+
+const NOW = 1_700_000_000_000;
+const NO_FEATURED = { globalBan: new Set<string>(), globalPick: new Set<string>() };
+const pick = (code: string) => ({ characterCode: code, eidolon: 0, lightconeId: null, superimpose: 1 });
+
+/** Timer on, nothing left on the clock for the side on turn */
+const timedOut = (extra: any = {}) => ({
+  draftSequence: ["BB", "RR", "B", "R", "RR", "BX", "RX"],
+  currentTurn: 2,
+  picks: [pick("acheron"), pick("jingliu"), null, null, null, null, null],
+  timerEnabled: true,
+  reserveSeconds: 0,
+  reserveLeft: { B: 0, R: 0 },
+  graceLeft: 0,
+  paused: { B: false, R: false },
+  timerUpdatedAt: NOW,
+  ...extra,
+});
+
+test("mergeTimerBody takes valid timer fields and seeds the rest", () => {
+  const s = mergeTimerBody(
+    { draftSequence: ["BB"], currentTurn: 0 },
+    { timerEnabled: true, reserveSeconds: -5, timeoutPolicy: "nonsense", paused: { B: true, R: false } }
+  );
+  assert.equal(s.timerEnabled, true);
+  assert.equal(s.reserveSeconds, 0);
+  assert.equal(s.timeoutPolicy, "none");
+  assert.deepEqual(s.paused, { B: true, R: false });
+  assert.equal(s.graceLeft, MOVE_GRACE);
+
+  const kept = mergeTimerBody({ timerEnabled: true, paused: { B: false, R: true } }, { paused: { B: true } });
+  assert.deepEqual(kept.paused, { B: false, R: true });
+});
+
+test("a side only times out once both its grace and its reserve are gone", () => {
+  const st = timedOut({ graceLeft: MOVE_GRACE, reserveLeft: { B: 10, R: 10 } });
+  assert.equal(isTurnTimedOut(burnToNow(st, NOW + (MOVE_GRACE + 9) * 1000)), false);
+  assert.equal(isTurnTimedOut(burnToNow(st, NOW + (MOVE_GRACE + 10) * 1000)), true);
+});
+
+test("skip leaves a ban slot empty and moves on", () => {
+  const out = applyTimeoutPolicy(timedOut({ currentTurn: 4 }), "skip", NOW, "lightconeId", ["kafka"], NO_FEATURED);
+  assert.equal(out.result, "skip");
+  assert.equal(out.side, "R");
+  assert.equal(out.state.picks[4], null);
+  assert.equal(out.state.currentTurn, 5);
+  assert.equal(out.state.graceLeft, MOVE_GRACE);
+});
+
+test("skip and random pick a legal character on a pick turn", () => {
+  for (const policy of ["skip", "random"] as const) {
+    const out = applyTimeoutPolicy(
+      timedOut(),
+      policy,
+      NOW,
+      "lightconeId",
+      ["acheron", "jingliu", "kafka", "bronya"],
+      { globalBan: new Set(["bronya"]), globalPick: new Set() }
+    );
+    assert.equal(out.result, "pick");
+    assert.deepEqual(out.state.picks[2], pick("kafka"));
+    assert.deepEqual(out.logPayload, { policy, index: 2, result: "pick", characterCode: "kafka" });
+    assert.equal(out.state.currentTurn, 3);
+  }
+});
+
+test("no legal character left means the slot is skipped", () => {
+  const out = applyTimeoutPolicy(timedOut(), "random", NOW, "lightconeId", ["acheron"], NO_FEATURED);
+  assert.equal(out.result, "skip");
+  assert.equal(out.state.picks[2], null);
+  assert.equal(out.state.currentTurn, 3);
+});
+
+test("forfeit leaves the board alone and marks the side", () => {
+  const out = applyTimeoutPolicy(timedOut(), "forfeit", NOW, "lightconeId", [], NO_FEATURED);
+  assert.equal(out.result, "forfeit");
+  assert.equal(out.state.forfeitedBy, "B");
+  assert.equal(out.state.currentTurn, 2);
+  assert.equal(out.state.picks[2], null);
+});
+
+test("a blind timeout goes in as a hidden submission and can complete the reveal", () => {
+  const st = timedOut({ currentTurn: 5, blindPending: { index: 5, B: "kafka" } });
+  const out = applyTimeoutPolicy(st, "random", NOW, "lightconeId", ["bronya"], NO_FEATURED);
+  assert.equal(out.side, "R");
+  assert.equal(out.logPayload.characterCode, null);
+  assert.equal(out.logPayload.blind, true);
+  assert.equal(out.blindReveal?.outcome, "revealed");
+  assert.deepEqual(out.state.picks.slice(5), [pick("kafka"), pick("bronya")]);
+  assert.equal(out.state.currentTurn, 7);
+
+  const first = applyTimeoutPolicy(
+    timedOut({ currentTurn: 5 }),
+    "skip",
+    NOW,
+    "lightconeId",
+    ["bronya"],
+    NO_FEATURED
+  );
+  assert.equal(first.blindReveal, null);
+  assert.equal(first.result, "skip");
+  assert.equal(first.logPayload.reveal, null);
+  assert.equal(first.state.currentTurn, 5);
+});
+
+/** Timer on with a fresh grace and 60s of reserve each, `turn` on the clock */
+const running = (turn: number, extra: any = {}) =>
+  timedOut({ currentTurn: turn, graceLeft: MOVE_GRACE, reserveLeft: { B: 60, R: 60 }, ...extra });
+
+test("grace burns first, then the reserve of the side on turn", () => {
+  const s = burnToNow(running(2), NOW + (MOVE_GRACE + 15) * 1000);
+  assert.equal(s.graceLeft, 0);
+  assert.deepEqual(s.reserveLeft, { B: 45, R: 60 });
+  assert.equal(s.timerUpdatedAt, NOW + (MOVE_GRACE + 15) * 1000);
+});
+
+test("each side's first ban is free, paused sides and disabled timers don't burn", () => {
+  const later = NOW + 120_000;
+  assert.equal(burnToNow(running(0), later).graceLeft, MOVE_GRACE);
+  assert.equal(burnToNow(running(1), later).graceLeft, MOVE_GRACE);
+  // the second red ban is on the clock
+  assert.equal(burnToNow(running(4), later).reserveLeft.R, 0);
+
+  const paused = burnToNow(running(2, { paused: { B: true, R: false } }), later);
+  assert.equal(paused.graceLeft, MOVE_GRACE);
+  assert.deepEqual(paused.reserveLeft, { B: 60, R: 60 });
+
+  const off = burnToNow(running(2, { timerEnabled: false }), later);
+  assert.deepEqual(off.reserveLeft, { B: 60, R: 60 });
+  assert.equal(off.timerUpdatedAt, later);
+});
+
+test("both sides burn in a blind phase until they have submitted", () => {
+  const later = NOW + (MOVE_GRACE + 10) * 1000;
+  assert.deepEqual(burnToNow(running(5), later).reserveLeft, { B: 50, R: 50 });
+  const blueIn = burnToNow(running(5, { blindPending: { index: 5, B: "kafka" } }), later);
+  assert.deepEqual(blueIn.reserveLeft, { B: 60, R: 50 });
+});
+
+test("a new turn gets a fresh grace without touching the reserves", () => {
+  const burned = burnToNow(running(2), NOW + (MOVE_GRACE + 5) * 1000);
+  const next = resetGraceForNewTurn({ ...burned, currentTurn: 3 }, NOW + 40_000);
+  assert.equal(next.graceLeft, MOVE_GRACE);
+  assert.deepEqual(next.reserveLeft, { B: 55, R: 60 });
+  assert.equal(next.timerUpdatedAt, NOW + 40_000);
+  assert.equal(burned.graceLeft, 0);
+});
+
+test("missing timer fields are seeded from reserveSeconds", () => {
+  const s = initTimerFields({ reserveSeconds: 90 });
+  assert.equal(s.timerEnabled, false);
+  assert.deepEqual(s.reserveLeft, { B: 90, R: 90 });
+  assert.deepEqual(s.paused, { B: false, R: false });
+  assert.equal(s.graceLeft, MOVE_GRACE);
+});
@@ -0,0 +1,251 @@
+// utils/draftTimer.ts
+// Server-authoritative draft clock shared by the HSR and ZZZ spectator routers.
+// All timer fields live inside the session `state` JSONB.
+
+import { BlindReveal, submitBlindBan } from "./blindBan";
+
+export const MOVE_GRACE = 30;
+
+export const isBlindTok = (t: string) => t === "BX" || t === "RX";
+export const isBanTok = (t: string) => t === "BB" || t === "RR" || isBlindTok(t);
+export const sideOfTok = (t: string) => (t?.startsWith("B") ? "B" : t?.startsWith("R") ? "R" : null);
+
+export function isFirstBanForSide(idx: number, seq: string[]) {
+  const tok = seq[idx] || "";
+  if (!isBanTok(tok)) return false;
+  for (let i = 0; i < idx; i++) if (seq[i] === tok) return false;
+  return true;
+}
+
+/**
+ * The clock does not run on each side's first ban. Blind ban phases are the
+ * exception: both sides are on the clock at once (see clockSides), so a side
+ * that never submits runs out of time like on any other turn.
+ */
+export function isClockFrozen(idx: number, seq: string[]) {
+  return !isBlindTok(seq[idx] || "") && isFirstBanForSide(idx, seq);
+}
+
+/**
+ * Sides whose clock runs right now: the side on turn, or during a blind ban
+ * phase every side that hasn't submitted yet (shaped payloads only carry the
+ * `blindSubmitted` flags). Paused sides don't run.
+ */
+export function clockSides(s: any): ("B" | "R")[] {
+  const seq: string[] = s.draftSequence || [];
+  const tok = seq[s.currentTurn] || "";
+  if (isClockFrozen(s.currentTurn, seq)) return [];
+
+  let sides: ("B" | "R")[];
+  if (isBlindTok(tok)) {
+    const pending = s.blindPending?.index === s.currentTurn ? s.blindPending : null;
+    sides = (["B", "R"] as const).filter((side) =>
+      pending ? pending[side] === undefined : !s.blindSubmitted?.[side]
+    );
+  } else {
+    const side = sideOfTok(tok);
+    sides = side ? [side] : [];
+  }
+  return sides.filter((side) => !s.paused?.[side]);
+}
+
+/** Ensure timer fields exist */
+export function initTimerFields(s: any) {
+  if (!s) return s;
+  if (typeof s.timerEnabled !== "boolean") s.timerEnabled = false;
+  if (!Number.isFinite(Number(s.reserveSeconds))) s.reserveSeconds = 0;
+  if (!s.paused) s.paused = { B: false, R: false };
+  const seed = Math.max(0, Number(s.reserveSeconds) || 0);
+  if (!s.reserveLeft || typeof s.reserveLeft.B !== "number" || typeof s.reserveLeft.R !== "number") {
+    s.reserveLeft = { B: seed, R: seed };
+  }
+  if (!Number.isFinite(Number(s.graceLeft))) s.graceLeft = MOVE_GRACE;
+  if (!Number.isFinite(Number(s.timerUpdatedAt))) s.timerUpdatedAt = Date.now();
+  return s;
+}
+
+/** Burn once from timerUpdatedAt → now, mutating a shallow copy (used for persist & live ticks) */
+export function burnToNow(raw: any, nowMs: number) {
+  const s = { ...raw };
+  initTimerFields(s);
+  if (!s.timerEnabled) { s.timerUpdatedAt = nowMs; return s; }
+
+  const sides = clockSides(s);
+  const last = Number(s.timerUpdatedAt) || nowMs;
+
+  if (!sides.length) { s.timerUpdatedAt = nowMs; return s; }
+
+  let dt = Math.max(0, (nowMs - last) / 1000);
+  let grace = Math.max(0, Number(s.graceLeft ?? MOVE_GRACE));
+  let resB = Math.max(0, Number(s.reserveLeft?.B ?? s.reserveSeconds ?? 0));
+  let resR = Math.max(0, Number(s.reserveLeft?.R ?? s.reserveSeconds ?? 0));
+
+  const g = Math.min(grace, dt);
+  grace -= g; dt -= g;
+
+  if (dt > 0) {
+    if (sides.includes("B")) resB = Math.max(0, resB - dt);
+    if (sides.includes("R")) resR = Math.max(0, resR - dt);
+  }
+
+  s.graceLeft = Number(grace.toFixed(3));
+  s.reserveLeft = { B: Number(resB.toFixed(3)), R: Number(resR.toFixed(3)) };
+  s.timerUpdatedAt = nowMs;
+  return s;
+}
+
+/** Reset grace on turn change (call immediately after incrementing currentTurn) */
+export function resetGraceForNewTurn(raw: any, nowMs: number) {
+  const s = { ...raw };
+  initTimerFields(s);
+  s.graceLeft = MOVE_GRACE;
+  s.timerUpdatedAt = nowMs;
+  return s;
+}
+
+/* ───────────────── Timeout policy ─────────────────
+   Applied once the active side has neither grace nor reserve left:
+     none     → nothing happens (honour system)
+     skip     → ban turns are skipped (slot stays empty), pick turns random-pick
+     random   → random legal character for both bans and picks
+     forfeit  → the timed-out side forfeits and the draft completes
+────────────────────────────────────────────────── */
+export type TimeoutPolicy = "none" | "skip" | "random" | "forfeit";
+const TIMEOUT_POLICIES: ReadonlySet<string> = new Set(["none", "skip", "random", "forfeit"]);
+
+export function sanitizeTimeoutPolicy(raw: any): TimeoutPolicy {
+  return TIMEOUT_POLICIES.has(raw) ? (raw as TimeoutPolicy) : "none";
+}
+
+/** Sides on the clock that have burned both the grace and their reserve */
+export function timedOutSides(s: any): ("B" | "R")[] {
+  if (!s?.timerEnabled) return [];
+  const seq: string[] = s.draftSequence || [];
+  if (!(s.currentTurn < seq.length)) return [];
+  if (Number(s.graceLeft) > 0) return [];
+  return clockSides(s).filter((side) => Number(s.reserveLeft?.[side]) <= 0);
+}
+
+/** True when a side on the clock has burned both its grace and its reserve */
+export function isTurnTimedOut(s: any): boolean {
+  return timedOutSides(s).length > 0;
+}
+
+/**
+ * Random character that would pass the actions handler for this slot.
+ * Banned characters, the side's own picks and its sideBans are excluded for picks;
+ * already-banned and globalPick characters are excluded for bans.
+ */
+export function randomLegalCode(
+  allCodes: string[],
+  s: any,
+  side: "B" | "R",
+  ban: boolean,
+  featured: { globalBan: Set<string>; globalPick: Set<string> }
+): string | null {
+  const seq: string[] = s.draftSequence || [];
+  const banned = new Set<string>();
+  const ownPicks = new Set<string>();
+  (s.picks || []).forEach((p: any, i: number) => {
+    if (!p?.characterCode) return;
+    if (isBanTok(seq[i])) banned.add(p.characterCode);
+    else if (seq[i]?.startsWith(side)) ownPicks.add(p.characterCode);
+  });
+  for (const code of s.sideBans?.[side] || []) ownPicks.add(code);
+
+  const legal = allCodes.filter((code) => {
+    if (banned.has(code)) return false;
+    if (ban) return !featured.globalPick.has(code);
+    return !featured.globalBan.has(code) && !ownPicks.has(code);
+  });
+  if (!legal.length) return null;
+  return legal[Math.floor(Math.random() * legal.length)];
+}
+
+/** Merge timerEnabled / reserveSeconds / paused / timeoutPolicy from a create/update body into a state */
+export function mergeTimerBody(state: any, body: any) {
+  const merged: any = { ...state };
+  if (typeof body?.timerEnabled === "boolean")
+    merged.timerEnabled = !!body.timerEnabled;
+  if (Number.isFinite(Number(body?.reserveSeconds)))
+    merged.reserveSeconds = Math.max(0, Number(body.reserveSeconds));
+  if (body?.timeoutPolicy !== undefined)
+    merged.timeoutPolicy = sanitizeTimeoutPolicy(body.timeoutPolicy);
+  const paused = body?.paused;
+  if (
+    paused &&
+    typeof paused.B === "boolean" &&
+    typeof paused.R === "boolean"
+  ) {
+    merged.paused = { B: !!paused.B, R: !!paused.R };
+  }
+  // seed authoritative timer fields
+  return initTimerFields(merged);
+}
+
+export type TimeoutOutcome = {
+  state: any;
+  side: "B" | "R";
+  result: "skip" | "pick" | "ban" | "forfeit";
+  blindReveal: BlindReveal | null;
+  /** Action-log payload; never carries a blind submission */
+  logPayload: Record<string, any>;
+};
+
+/**
+ * Apply `policy` to the timed-out turn of a state already burned to `nowMs`.
+ * `allCodes` is only consulted for skip-picks and random; pass [] for forfeit.
+ */
+export function applyTimeoutPolicy(
+  burned: any,
+  policy: Exclude<TimeoutPolicy, "none">,
+  nowMs: number,
+  equipKey: "lightconeId" | "wengineId",
+  allCodes: string[],
+  featured: { globalBan: Set<string>; globalPick: Set<string> }
+): TimeoutOutcome {
+  let st: any = burned;
+  const index: number = st.currentTurn;
+  const tok: string = st.draftSequence[index];
+  // in a blind phase both sides are on the clock; resolve whichever ran out
+  const blind = isBlindTok(tok);
+  const side = (blind ? timedOutSides(st)[0] : sideOfTok(tok)) as "B" | "R";
+  const ban = isBanTok(tok);
+
+  let result: TimeoutOutcome["result"];
+  let characterCode: string | null = null;
+  let blindReveal: BlindReveal | null = null;
+
+  if (policy === "forfeit") {
+    result = "forfeit";
+    st.forfeitedBy = side;
+  } else {
+    if (!(policy === "skip" && ban))
+      characterCode = randomLegalCode(allCodes, st, side, ban, featured);
+    if (blind) {
+      // goes in as the side's blind submission ("" = skipped), hidden until the reveal
+      result = characterCode ? "ban" : "skip";
+      blindReveal = submitBlindBan(st, side, characterCode ?? "", equipKey);
+      if (blindReveal) st = resetGraceForNewTurn(st, nowMs);
+    } else {
+      if (characterCode) {
+        result = ban ? "ban" : "pick";
+        st.picks[index] = {
+          characterCode,
+          eidolon: 0,
+          [equipKey]: null,
+          superimpose: 1,
+        };
+      } else {
+        result = "skip";
+      }
+      st.currentTurn = Math.min(index + 1, st.draftSequence.length);
+      st = resetGraceForNewTurn(st, nowMs);
+    }
+  }
+
+  const logPayload = blind
+    ? { policy, index, result, characterCode: null, blind: true, reveal: blindReveal }
+    : { policy, index, result, characterCode };
+  return { state: st, side, result, blindReveal, logPayload };
+}
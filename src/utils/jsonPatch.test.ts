@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyPatch, diffJson } from "./jsonPatch";
+
+const roundTrip = (prev: any, next: any) => {
+  const ops = diffJson(prev, next);
+  assert.deepEqual(applyPatch(prev, ops), next);
+  return ops;
+};
+
+test("equal documents produce no ops", () => {
+  const doc = { a: 1, b: { c: [1, 2, { d: "x" }] } };
+  assert.deepEqual(diffJson(doc, JSON.parse(JSON.stringify(doc))), []);
+});
+
+test("object keys are added, removed and replaced", () => {
+  const ops = roundTrip({ a: 1, b: 2, n: { x: 1 } }, { a: 1, c: 3, n: { x: 2 } });
+  assert.deepEqual(
+    ops.map((o) => `${o.op} ${o.path}`).sort(),
+    ["add /c", "remove /b", "replace /n/x"]
+  );
+});
+
+test("same-length arrays are diffed per index", () => {
+  const ops = roundTrip({ picks: ["a", "b", "c"] }, { picks: ["a", "x", "c"] });
+  assert.deepEqual(ops, [{ op: "replace", path: "/picks/1", value: "x" }]);
+});
+
+test("arrays that change length are replaced whole", () => {
+  const ops = roundTrip({ picks: ["a"] }, { picks: ["a", "b"] });
+  assert.deepEqual(ops, [{ op: "replace", path: "/picks", value: ["a", "b"] }]);
+});
+
+test("keys with / and ~ are escaped and survive the round trip", () => {
+  const ops = roundTrip({ "a/b": 1, "c~d": { e: 1 } }, { "a/b": 2, "c~d": { e: 2 } });
+  assert.deepEqual(ops.map((o) => o.path).sort(), ["/a~1b", "/c~0d/e"]);
+});
+
+test("type changes and root replacement", () => {
+  roundTrip({ a: { b: 1 } }, { a: [1, 2] });
+  roundTrip({ a: null }, { a: { b: 1 } });
+  roundTrip([1, 2], { x: 1 });
+});
+
+test("applyPatch leaves the input untouched", () => {
+  const prev = { a: { b: 1 } };
+  applyPatch(prev, diffJson(prev, { a: { b: 2 } }));
+  assert.deepEqual(prev, { a: { b: 1 } });
+});
+
+test("a draft state round-trips through a sequence of updates", () => {
+  let base: any = { currentTurn: 0, picks: [null, null], bans: [], timer: { B: 30, R: 30 } };
+  const steps = [
+    { currentTurn: 1, picks: ["kafka", null], bans: [], timer: { B: 28, R: 30 } },
+    { currentTurn: 2, picks: ["kafka", "acheron"], bans: ["jingliu"], timer: { B: 28, R: 21 } },
+    { currentTurn: 3, picks: ["kafka", "acheron"], bans: ["jingliu"], timer: null, paused: true },
+  ];
+  for (const next of steps) {
+    base = applyPatch(base, diffJson(base, next));
+    assert.deepEqual(base, next);
+  }
+});
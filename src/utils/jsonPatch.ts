@@ -0,0 +1,67 @@
+// utils/jsonPatch.ts
+// Minimal JSON Patch (RFC 6902) for session deltas: add / remove / replace
+// only, produced by `diffJson` and replayed by `applyPatch`. Equal subtrees produce no ops, so a big cost profile that
+// didn't change costs nothing. Arrays of equal length are diffed per index;
+// any other array change replaces the whole array.
+//
+// Inputs must be plain JSON values (round-trip through JSON first so Dates
+// and undefined fields look the way clients see them).
+
+export type PatchOp =
+  | { op: "add" | "replace"; path: string; value: any }
+  | { op: "remove"; path: string };
+
+const escapeToken = (k: string) => k.replace(/~/g, "~0").replace(/\//g, "~1");
+const unescapeToken = (t: string) => t.replace(/~1/g, "/").replace(/~0/g, "~");
+const isPlainObject = (v: any) => v !== null && typeof v === "object" && !Array.isArray(v);
+
+export function diffJson(prev: any, next: any, path = "", out: PatchOp[] = []): PatchOp[] {
+  if (prev === next) return out;
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    for (const k of Object.keys(prev)) {
+      if (!(k in next)) out.push({ op: "remove", path: `${path}/${escapeToken(k)}` });
+    }
+    for (const k of Object.keys(next)) {
+      const p = `${path}/${escapeToken(k)}`;
+      if (!(k in prev)) out.push({ op: "add", path: p, value: next[k] });
+      else diffJson(prev[k], next[k], p, out);
+    }
+    return out;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next) && prev.length === next.length) {
+    for (let i = 0; i < next.length; i++) diffJson(prev[i], next[i], `${path}/${i}`, out);
+    return out;
+  }
+
+  out.push({ op: "replace", path, value: next });
+  return out;
+}
+
+/** Apply `ops` to a copy of `doc` (what a delta client does with a `patch` event) */
+export function applyPatch(doc: any, ops: PatchOp[]): any {
+  let root = doc === undefined ? undefined : JSON.parse(JSON.stringify(doc));
+  for (const o of ops) {
+    if (o.path === "") {
+      root = o.op === "remove" ? undefined : o.value;
+      continue;
+    }
+    const tokens = o.path.slice(1).split("/").map(unescapeToken);
+    const last = tokens.pop()!;
+    let parent = root;
+    for (const t of tokens) parent = parent[Array.isArray(parent) ? Number(t) : t];
+
+    if (Array.isArray(parent)) {
+      const i = last === "-" ? parent.length : Number(last);
+      if (o.op === "remove") parent.splice(i, 1);
+      else if (o.op === "add") parent.splice(i, 0, o.value);
+      else parent[i] = o.value;
+    } else if (o.op === "remove") {
+      delete parent[last];
+    } else {
+      parent[last] = o.value;
+    }
+  }
+  return root;
+}
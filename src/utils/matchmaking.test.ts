@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ELO_WINDOW_BASE,
+  ELO_WINDOW_MAX,
+  ELO_WINDOW_STEP,
+  ELO_WINDOW_STEP_MS,
+  QueueTicket,
+  eloWindow,
+  findMatches,
+} from "./matchmaking";
+
+const NOW = 1_700_000_000_000;
+const ticket = (userId: string, elo: number, waitedMs = 0, mode = "2ban"): QueueTicket => ({
+  userId,
+  game: "hsr",
+  mode,
+  elo,
+  joinedAt: NOW - waitedMs,
+});
+const ids = (pairs: [QueueTicket, QueueTicket][]) => pairs.map(([a, b]) => [a.userId, b.userId]);
+
+test("the window widens with time and stops at the cap", () => {
+  assert.equal(eloWindow(0), ELO_WINDOW_BASE);
+  assert.equal(eloWindow(ELO_WINDOW_STEP_MS - 1), ELO_WINDOW_BASE);
+  assert.equal(eloWindow(3 * ELO_WINDOW_STEP_MS), ELO_WINDOW_BASE + 3 * ELO_WINDOW_STEP);
+  assert.equal(eloWindow(1e9), ELO_WINDOW_MAX);
+});
+
+test("a gap has to fit both windows, so new arrivals aren't pulled in early", () => {
+  const veteran = ticket("old", 1000, 60_000); // window 200
+  const fresh = ticket("new", 1150); // window 50
+  assert.deepEqual(findMatches([veteran, fresh], NOW), []);
+  assert.deepEqual(ids(findMatches([veteran, fresh], NOW + 40_000)), [["old", "new"]]);
+});
+
+test("longest waiting picks first and takes the closest partner", () => {
+  const pairs = findMatches(
+    [ticket("c", 1030), ticket("a", 1000, 5000), ticket("b", 1010), ticket("d", 1045)],
+    NOW
+  );
+  assert.deepEqual(ids(pairs), [["a", "b"], ["c", "d"]]);
+});
+
+test("different modes never meet and odd tickets stay queued", () => {
+  assert.deepEqual(findMatches([ticket("a", 1000), ticket("b", 1000, 0, "3ban")], NOW), []);
+  assert.equal(findMatches([ticket("a", 1000), ticket("b", 1000), ticket("c", 1000)], NOW).length, 1);
+});
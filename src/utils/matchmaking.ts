@@ -0,0 +1,53 @@
+// utils/matchmaking.ts
+// ELO-window pairing for the matchmaking queue (pure; the queue itself lives
+// in the router).
+//
+// Every ticket's acceptable ELO gap starts at BASE and widens by STEP for each
+// STEP_MS waited, up to MAX. Two tickets match when the gap fits inside both
+// windows, so a new arrival never gets pulled into a wide window early.
+
+export const ELO_WINDOW_BASE = 50;
+export const ELO_WINDOW_STEP = 25;
+export const ELO_WINDOW_STEP_MS = 10_000;
+export const ELO_WINDOW_MAX = 400;
+
+export type QueueTicket = {
+  userId: string;
+  game: "hsr" | "zzz";
+  mode: string;
+  elo: number;
+  joinedAt: number;
+};
+
+export function eloWindow(waitedMs: number): number {
+  const steps = Math.floor(Math.max(0, waitedMs) / ELO_WINDOW_STEP_MS);
+  return Math.min(ELO_WINDOW_MAX, ELO_WINDOW_BASE + steps * ELO_WINDOW_STEP);
+}
+
+/**
+ * Pair compatible tickets, longest waiting first; each ticket takes the
+ * closest-ELO partner it accepts. Unpaired tickets stay queued.
+ */
+export function findMatches(tickets: QueueTicket[], now: number): [QueueTicket, QueueTicket][] {
+  const waiting = [...tickets].sort((a, b) => a.joinedAt - b.joinedAt);
+  const taken = new Set<string>();
+  const out: [QueueTicket, QueueTicket][] = [];
+
+  for (const a of waiting) {
+    if (taken.has(a.userId)) continue;
+    let best: QueueTicket | null = null;
+    for (const b of waiting) {
+      if (b === a || taken.has(b.userId)) continue;
+      if (b.game !== a.game || b.mode !== a.mode) continue;
+      const gap = Math.abs(a.elo - b.elo);
+      if (gap > eloWindow(now - a.joinedAt) || gap > eloWindow(now - b.joinedAt)) continue;
+      if (!best || gap < Math.abs(a.elo - best.elo)) best = b;
+    }
+    if (best) {
+      taken.add(a.userId);
+      taken.add(best.userId);
+      out.push([a, best]);
+    }
+  }
+  return out;
+}
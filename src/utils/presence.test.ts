@@ -0,0 +1,16 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { countPresence } from "./presence";
+
+test("captains count as viewers but not as spectators", () => {
+  assert.deepEqual(countPresence(["B", null, null, "B"]), {
+    viewers: 4,
+    spectators: 2,
+    captains: { B: true, R: false },
+  });
+  assert.deepEqual(countPresence(new Set<"B" | "R" | null>()), {
+    viewers: 0,
+    spectators: 0,
+    captains: { B: false, R: false },
+  });
+});
@@ -0,0 +1,19 @@
+// utils/presence.ts
+// Who is watching a session, from the per-connection side tags kept by the
+// spectator routers' SSE hubs (null = spectator).
+
+export type Presence = {
+  viewers: number; // every open stream, captains included
+  spectators: number;
+  captains: { B: boolean; R: boolean };
+};
+
+export function countPresence(sides: Iterable<"B" | "R" | null>): Presence {
+  const out: Presence = { viewers: 0, spectators: 0, captains: { B: false, R: false } };
+  for (const side of sides) {
+    out.viewers++;
+    if (side) out.captains[side] = true;
+    else out.spectators++;
+  }
+  return out;
+}
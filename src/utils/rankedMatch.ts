@@ -0,0 +1,170 @@
+// utils/rankedMatch.ts
+// Turns a finished, score-confirmed HSR draft into a ranked `matches` row.
+//
+// Every counter applied here is one that /api/admin/rollback/:matchId undoes,
+// so a promoted match can be rolled back like any imported one.
+import type { PoolClient } from "pg";
+import type { DraftResult } from "./draftResult";
+import { isBanTok, sideOfTok } from "./draftTimer";
+
+const ELO_K = 32;
+
+export type RankedMember = { id: string; name: string; cycles: number };
+
+export type RankedRawData = {
+  winner: "red" | "blue";
+  red_team: RankedMember[];
+  blue_team: RankedMember[];
+  red_picks: { code: string; eidolon: number; superimposition: number }[];
+  blue_picks: { code: string; eidolon: number; superimposition: number }[];
+  red_bans: { code: string }[];
+  blue_bans: { code: string }[];
+  prebans: string[];
+  jokers: string[];
+  red_penalty: number;
+  blue_penalty: number;
+  date: string;
+  session_key: string;
+};
+
+/**
+ * raw_data in the shape admin.ts / matches.ts / summary.ts read.
+ * `blueIds` / `redIds` line up with the score slots (a solo player is listed
+ * once per half, exactly like imported matches).
+ */
+export function buildRawData(
+  key: string,
+  state: any,
+  featured: any[],
+  result: DraftResult,
+  blueIds: string[],
+  redIds: string[],
+  names: Record<string, string>
+): RankedRawData {
+  const seq: string[] = state?.draftSequence || [];
+  const picks = { B: [] as RankedRawData["red_picks"], R: [] as RankedRawData["red_picks"] };
+  const bans = { B: [] as RankedRawData["red_bans"], R: [] as RankedRawData["red_bans"] };
+
+  (state?.picks || []).forEach((p: any, i: number) => {
+    const tok = seq[i] || "";
+    if (!p?.characterCode) return;
+    if (isBanTok(tok)) {
+      bans[sideOfTok(tok) as "B" | "R"].push({ code: p.characterCode });
+    } else if (tok === "B" || tok === "R") {
+      picks[tok].push({
+        code: p.characterCode,
+        eidolon: Math.max(0, Math.min(6, Number(p.eidolon) || 0)),
+        superimposition: Math.max(1, Math.min(5, Number(p.superimpose) || 1)),
+      });
+    }
+  });
+
+  const team = (ids: string[], scores: number[]) =>
+    ids.map((id, i) => ({ id, name: names[id] || id, cycles: Number(scores[i]) || 0 }));
+
+  const rule = (r: string) =>
+    (featured || [])
+      .filter((f: any) => f?.kind === "character" && f.rule === r)
+      .map((f: any) => String(f.code));
+
+  return {
+    winner: result.winner === "B" ? "blue" : "red",
+    red_team: team(redIds, result.red?.scores || []),
+    blue_team: team(blueIds, result.blue?.scores || []),
+    red_picks: picks.R,
+    blue_picks: picks.B,
+    red_bans: bans.R,
+    blue_bans: bans.B,
+    prebans: rule("globalBan"),
+    jokers: rule("globalPick"),
+    red_penalty: result.red?.penalty ?? 0,
+    blue_penalty: result.blue?.penalty ?? 0,
+    date: result.decidedAt,
+    session_key: key,
+  };
+}
+
+/**
+ * Team ELO: each side plays at the average ELO of its distinct players.
+ * Winners always gain at least 1 — rollback reads a positive gain as a win.
+ */
+export function computeEloGains(
+  elo: Record<string, number>,
+  blueIds: string[],
+  redIds: string[],
+  winner: "B" | "R"
+): Record<string, number> {
+  const avg = (ids: string[]) => {
+    const uniq = [...new Set(ids)];
+    return uniq.reduce((a, id) => a + (elo[id] ?? 0), 0) / Math.max(uniq.length, 1);
+  };
+  const blueElo = avg(blueIds);
+  const redElo = avg(redIds);
+  const blueExpected = 1 / (1 + Math.pow(10, (redElo - blueElo) / 400));
+
+  const blueDelta = ELO_K * ((winner === "B" ? 1 : 0) - blueExpected);
+  const win = Math.max(1, Math.round(Math.abs(blueDelta)));
+  const loss = -Math.round(Math.abs(blueDelta));
+
+  const gains: Record<string, number> = {};
+  for (const id of blueIds) gains[id] = winner === "B" ? win : loss;
+  for (const id of redIds) gains[id] = winner === "R" ? win : loss;
+  return gains;
+}
+
+/** Forward of the rollback: ELO, games played, win rate, character counters */
+export async function applyRankedMatch(
+  client: PoolClient,
+  raw: RankedRawData,
+  eloGains: Record<string, number>
+): Promise<void> {
+  for (const [playerId, gain] of Object.entries(eloGains)) {
+    await client.query(
+      `UPDATE players SET
+        elo = elo + $1,
+        games_played = games_played + 1,
+        win_rate = CASE
+          WHEN $1 > 0 THEN ((win_rate * games_played + 1) / (games_played + 1))
+          ELSE ((win_rate * games_played) / (games_played + 1))
+        END
+       WHERE discord_id = $2`,
+      [gain, playerId]
+    );
+  }
+
+  const seen = new Set<string>();
+  const appear = async (code: string) => {
+    if (seen.has(code)) return;
+    seen.add(code);
+    await client.query(`UPDATE characters SET appearance_count = appearance_count + 1 WHERE code = $1`, [code]);
+  };
+
+  for (const teamKey of ["red_picks", "blue_picks"] as const) {
+    const teamWon =
+      (teamKey === "red_picks" && raw.winner === "red") ||
+      (teamKey === "blue_picks" && raw.winner === "blue");
+
+    for (const { code, eidolon } of raw[teamKey]) {
+      await appear(code);
+      await client.query(`UPDATE characters SET pick_count = pick_count + 1 WHERE code = $1`, [code]);
+      await client.query(`UPDATE characters SET e${eidolon}_uses = e${eidolon}_uses + 1 WHERE code = $1`, [code]);
+      if (teamWon) {
+        await client.query(`UPDATE characters SET e${eidolon}_wins = e${eidolon}_wins + 1 WHERE code = $1`, [code]);
+      }
+    }
+  }
+
+  for (const teamKey of ["red_bans", "blue_bans"] as const) {
+    for (const { code } of raw[teamKey]) {
+      await appear(code);
+      await client.query(`UPDATE characters SET ban_count = ban_count + 1 WHERE code = $1`, [code]);
+    }
+  }
+
+  for (const [field, column] of [["prebans", "preban_count"], ["jokers", "joker_count"]] as const) {
+    for (const code of raw[field]) {
+      await appear(code);
+      await client.query(`UPDATE characters SET ${column} = ${column} + 1 WHERE code = $1`, [code]);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyRefereeOp, refereeLogPayload, sanitizeReason, staffOnlyFields } from "./referee";
+import { shapeLogRow } from "./draftLog";
+
+const NOW = 1_700_000_000_000;
+const ban = (code: string) => ({ characterCode: code, eidolon: 0, lightconeId: null, superimpose: 1 });
+
+/** Blue has blind-banned "kafka"; red hasn't submitted yet */
+const blindState = () => ({
+  draftSequence: ["BB", "RR", "BX", "RX", "BP", "RP"],
+  currentTurn: 2,
+  picks: [ban("acheron"), ban("jingliu"), null, null, null, null],
+  blindPending: { index: 2, B: "kafka" },
+  timerEnabled: false,
+});
+
+const apply = (st: any, op: any, body: any) => applyRefereeOp(st, op, body, "lightconeId", NOW);
+
+test("reasons are trimmed and capped", () => {
+  assert.equal(sanitizeReason("  lag  "), "lag");
+  assert.equal(sanitizeReason(""), null);
+  assert.equal(sanitizeReason("x".repeat(201)), null);
+});
+
+test("a referee op mid-blind-phase keeps the submission server-side but not in the log", () => {
+  const out = apply(blindState(), "pause", { side: "R" });
+  assert.ok(out.ok);
+  // the stored state still needs it to reveal later
+  assert.deepEqual(out.state.blindPending, { index: 2, B: "kafka" });
+
+  const payload = refereeLogPayload({ action: "pause", reason: "lag", by: "u1", sides: ["R"] }, out.state);
+  assert.ok(!JSON.stringify(payload).includes("kafka"));
+  assert.deepEqual(payload.state.blindSubmitted, { B: true, R: false });
+});
+
+test("timeline rows never carry hidden submissions, even from old snapshots", () => {
+  const row = {
+    id: "7",
+    op: "referee",
+    side: null,
+    payload: { action: "unlock", state: blindState() },
+    turn_after: 2,
+    participant_id: null,
+    created_at: "2024-01-01T00:00:00Z",
+  };
+  const entry = shapeLogRow(row);
+  assert.ok(!JSON.stringify(entry).includes("kafka"));
+  assert.equal(entry.payload.action, "unlock");
+  assert.equal(entry.payload.state.blindSubmitted.B, true);
+});
+
+test("forceSet refuses the slots of an open blind pair", () => {
+  for (const index of [2, 3]) {
+    const out = apply(blindState(), "forceSet", { index, characterCode: "seele" });
+    assert.equal(out.ok, false);
+  }
+});
+
+test("forceSet fills the slot on the clock and moves on", () => {
+  const st = { ...blindState(), currentTurn: 4, blindPending: undefined };
+  st.picks[2] = ban("kafka");
+  st.picks[3] = null; // red skipped its blind ban
+  const out = apply(st, "forceSet", { index: 4, characterCode: "seele" });
+  assert.ok(out.ok);
+  assert.equal(out.state.picks[4].characterCode, "seele");
+  assert.equal(out.state.currentTurn, 5);
+
+  // an earlier slot is replaced in place
+  const back = apply(st, "forceSet", { index: 3, characterCode: "sparkle" });
+  assert.ok(back.ok);
+  assert.equal(back.state.picks[3].characterCode, "sparkle");
+  assert.equal(back.state.currentTurn, 4);
+  assert.equal(apply(st, "forceSet", { index: 5, characterCode: "x" }).ok, false);
+});
+
+test("rewinding into a blind pair replays the whole pair", () => {
+  const st = { ...blindState(), currentTurn: 4, blindPending: undefined };
+  st.picks[2] = ban("kafka");
+  st.picks[3] = ban("sparkle");
+  const out = apply(st, "rewind", { turn: 3 });
+  assert.ok(out.ok);
+  assert.equal(out.state.currentTurn, 2);
+  assert.deepEqual(out.state.picks.slice(2), [null, null, null, null]);
+});
+
+test("pause and resume flip only the chosen side", () => {
+  const paused = apply(blindState(), "pause", { side: "B" });
+  assert.ok(paused.ok);
+  assert.deepEqual(paused.state.paused, { B: true, R: false });
+  const resumed = apply(paused.state, "resume", {});
+  assert.ok(resumed.ok);
+  assert.deepEqual(resumed.state.paused, { B: false, R: false });
+  assert.equal(apply(blindState(), "pause", { side: "X" }).ok, false);
+});
+
+test("bindings and referees are shown to the owner and referees only", () => {
+  const row = { owner_user_id: "owner", referees: ["ref"], blue_user_id: "b1", red_user_id: null };
+  assert.equal(staffOnlyFields(row), null);
+  assert.equal(staffOnlyFields(row, "b1"), null);
+  for (const who of ["owner", "ref"]) {
+    assert.deepEqual(staffOnlyFields(row, who), { boundSides: { B: "b1", R: null }, referees: ["ref"] });
+  }
+});
@@ -0,0 +1,129 @@
+// utils/referee.ts
+// Referee powers over a live draft (shared by the HSR and ZZZ routers).
+//
+// Every op works on a burned-to-now copy of the state and returns the new
+// state plus the details that go into the audit log and the `referee` event.
+import { hideBlindSubmissions } from "./blindBan";
+import { isBlindTok, resetGraceForNewTurn } from "./draftTimer";
+
+export type RefereeOp = "pause" | "resume" | "rewind" | "forceSet" | "unlock";
+
+export const REFEREE_OPS: ReadonlySet<string> = new Set([
+  "pause",
+  "resume",
+  "rewind",
+  "forceSet",
+  "unlock",
+]);
+
+export const MAX_REASON_LEN = 200;
+
+export type StaffRow = {
+  owner_user_id: string;
+  referees: string[] | null;
+  blue_user_id: string | null;
+  red_user_id: string | null;
+};
+
+/** Discord ids bound to the sides and of the referees; null unless the viewer is the owner or a referee */
+export function staffOnlyFields(row: StaffRow, viewerId?: string) {
+  const referees = row.referees || [];
+  if (!viewerId || (row.owner_user_id !== viewerId && !referees.includes(viewerId))) return null;
+  return {
+    // sides bound to a Discord account only accept that account's token
+    boundSides: { B: row.blue_user_id ?? null, R: row.red_user_id ?? null },
+    referees,
+  };
+}
+
+export type RefereeOutcome =
+  | { ok: true; state: any; detail: Record<string, any> }
+  | { ok: false; status: number; error: string };
+
+const fail = (status: number, error: string): RefereeOutcome => ({ ok: false, status, error });
+
+/** Trimmed reason, or null when missing / too long */
+export function sanitizeReason(raw: any): string | null {
+  if (typeof raw !== "string") return null;
+  const r = raw.trim();
+  return r && r.length <= MAX_REASON_LEN ? r : null;
+}
+
+function parseSides(raw: any): ("B" | "R")[] | null {
+  if (raw === undefined || raw === null) return ["B", "R"];
+  return raw === "B" || raw === "R" ? [raw] : null;
+}
+
+export function applyRefereeOp(
+  st: any,
+  op: RefereeOp,
+  body: any,
+  equipKey: "lightconeId" | "wengineId",
+  now: number
+): RefereeOutcome {
+  const s = { ...st, picks: [...(st.picks || [])] };
+  const seq: string[] = s.draftSequence || [];
+
+  switch (op) {
+    case "pause":
+    case "resume": {
+      const sides = parseSides(body?.side);
+      if (!sides) return fail(400, "Invalid side");
+      s.paused = { ...(s.paused || { B: false, R: false }) };
+      for (const side of sides) s.paused[side] = op === "pause";
+      // the clock restarts from now, not from when it was paused
+      s.timerUpdatedAt = now;
+      return { ok: true, state: s, detail: { sides } };
+    }
+
+    case "rewind": {
+      let turn = Number(body?.turn);
+      if (!Number.isInteger(turn) || turn < 0 || turn > s.currentTurn)
+        return fail(400, "Invalid turn");
+      // a blind pair is replayed as a whole
+      if (seq[turn] === "RX" && seq[turn - 1] === "BX") turn -= 1;
+      for (let i = turn; i < s.picks.length; i++) s.picks[i] = null;
+      s.currentTurn = turn;
+      s.blueLocked = false;
+      s.redLocked = false;
+      delete s.blindPending;
+      return { ok: true, state: resetGraceForNewTurn(s, now), detail: { turn } };
+    }
+
+    case "forceSet": {
+      const index = Number(body?.index);
+      const code = typeof body?.characterCode === "string" ? body.characterCode.trim() : "";
+      if (!Number.isInteger(index) || index < 0 || index >= seq.length)
+        return fail(400, "Invalid index");
+      if (!code) return fail(400, "Missing characterCode");
+      if (index > s.currentTurn) return fail(409, "Cannot set a slot beyond the current turn");
+      // an open blind pair is settled by both submissions (or a rewind), never slot by slot
+      if (index === s.currentTurn && isBlindTok(seq[index]))
+        return fail(409, "Blind ban phase is still open");
+
+      s.picks[index] = { characterCode: code, eidolon: 0, [equipKey]: null, superimpose: 1 };
+      const before = s.currentTurn;
+      if (index >= s.currentTurn) {
+        while (s.currentTurn < seq.length && s.picks[s.currentTurn]) s.currentTurn++;
+      }
+      const out = s.currentTurn !== before ? resetGraceForNewTurn(s, now) : s;
+      return { ok: true, state: out, detail: { index, characterCode: code } };
+    }
+
+    case "unlock": {
+      const sides = parseSides(body?.side);
+      if (!sides) return fail(400, "Invalid side");
+      for (const side of sides) {
+        if (side === "B") s.blueLocked = false;
+        else s.redLocked = false;
+      }
+      return { ok: true, state: s, detail: { sides } };
+    }
+  }
+  return fail(400, "Invalid op");
+}
+
+/** Audit log payload: the detail plus a state snapshot with blind submissions hidden */
+export function refereeLogPayload(audit: Record<string, any>, state: any) {
+  return { ...audit, state: hideBlindSubmissions(state) };
+}
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CloneSourceRow, cloneCreateBody } from "./sessionClone";
+
+const row = (): CloneSourceRow => ({
+  mode: "2ban",
+  team1: "Alpha",
+  team2: "Beta",
+  state: {
+    draftSequence: ["BX", "RX", "B", "R"],
+    picks: [{ characterCode: "kafka" }, null, null, null],
+    timerEnabled: true,
+    reserveSeconds: 120,
+    timeoutPolicy: "random",
+    blindCollision: "redo",
+  },
+  featured: [{ kind: "character", code: "acheron", rule: "globalBan" }],
+  cost_profile_id: "preset-1",
+  cost_limit: "6.5",
+  penalty_per_point: 1,
+  spectator_delay_seconds: 30,
+  blue_user_id: "111111111111111111",
+  red_user_id: null,
+  participants: [
+    { id: "p1", side: "B", name: "Ana", token: "secret", userId: null, captain: true },
+  ],
+  participant_rules: { captainOnly: ["pick"] },
+});
+
+test("a rematch copies the settings but none of the draft", () => {
+  const body = cloneCreateBody(row(), false);
+  assert.equal(body.team1, "Alpha");
+  assert.equal(body.costLimit, 6.5);
+  assert.equal(body.penaltyPerPoint, 1);
+  assert.equal(body.spectatorDelaySeconds, 30);
+  assert.equal(body.timerEnabled, true);
+  assert.equal(body.reserveSeconds, 120);
+  assert.equal(body.timeoutPolicy, "random");
+  assert.equal(body.blindBans, true);
+  assert.equal(body.blindCollision, "redo");
+  assert.ok(!("state" in body));
+  // participants come back without ids or tokens, so the create path mints new ones
+  assert.deepEqual(body.participants, [{ side: "B", name: "Ana", userId: null, captain: true }]);
+});
+
+test("swapping sides moves teams, bindings and participants together", () => {
+  const body = cloneCreateBody(row(), true);
+  assert.deepEqual([body.team1, body.team2], ["Beta", "Alpha"]);
+  assert.equal(body.blueUserId, null);
+  assert.equal(body.redUserId, "111111111111111111");
+  assert.equal(body.participants[0].side, "R");
+});
@@ -0,0 +1,54 @@
+// utils/sessionClone.ts
+// Rematch: turn an existing session row back into a create body, so the new
+// session goes through the same create path (fresh key, tokens, participant
+// tokens, initial state). Results, picks and chat stay with the original.
+import { isBlindTok } from "./draftTimer";
+import { Participant } from "./sideAuth";
+
+export type CloneSourceRow = {
+  mode: string;
+  team1: string;
+  team2: string;
+  state: any;
+  featured: any;
+  cost_profile_id: string | null;
+  cost_limit: any;
+  penalty_per_point: any;
+  spectator_delay_seconds: any;
+  blue_user_id: string | null;
+  red_user_id: string | null;
+  participants: Participant[] | null;
+  participant_rules: any;
+};
+
+/** Create body with the same teams and settings; `swapSides` puts team1 on red */
+export function cloneCreateBody(row: CloneSourceRow, swapSides: boolean) {
+  const st = row.state || {};
+  const flip = (side: "B" | "R") => (swapSides ? (side === "B" ? "R" : "B") : side);
+
+  return {
+    mode: row.mode,
+    team1: swapSides ? row.team2 : row.team1,
+    team2: swapSides ? row.team1 : row.team2,
+    featured: row.featured ?? [],
+    costProfileId: row.cost_profile_id ?? undefined,
+    costLimit: row.cost_limit == null ? undefined : Number(row.cost_limit),
+    penaltyPerPoint: row.penalty_per_point == null ? undefined : Number(row.penalty_per_point),
+    spectatorDelaySeconds: Number(row.spectator_delay_seconds ?? 0),
+    timerEnabled: !!st.timerEnabled,
+    reserveSeconds: Number(st.reserveSeconds) || 0,
+    timeoutPolicy: st.timeoutPolicy,
+    blindBans: (st.draftSequence || []).some(isBlindTok),
+    blindCollision: st.blindCollision,
+    blueUserId: (swapSides ? row.red_user_id : row.blue_user_id) ?? null,
+    redUserId: (swapSides ? row.blue_user_id : row.red_user_id) ?? null,
+    // same people, new ids and tokens
+    participants: (row.participants || []).map((p) => ({
+      side: flip(p.side),
+      name: p.name,
+      userId: p.userId,
+      captain: p.captain,
+    })),
+    participantRules: row.participant_rules ?? undefined,
+  };
+}
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { idleExpiryMinutes, lifecycleOf } from "./sessionLifecycle";
+
+test("the lifecycle follows the row, reaper outcomes first", () => {
+  assert.equal(lifecycleOf({ state: { currentTurn: 0 } }), "lobby");
+  assert.equal(lifecycleOf({ state: { currentTurn: 3 } }), "drafting");
+  assert.equal(lifecycleOf({ is_complete: true, state: { currentTurn: 20 } }), "scoring");
+  assert.equal(lifecycleOf({ is_complete: true, result: { winner: "B" } }), "complete");
+  assert.equal(lifecycleOf({ lifecycle: "abandoned", state: { currentTurn: 3 } }), "abandoned");
+  assert.equal(lifecycleOf({ lifecycle: "expired" }), "expired");
+  assert.equal(lifecycleOf({ lifecycle: "bogus" }), "lobby");
+});
+
+test("the idle threshold comes from SESSION_IDLE_MINUTES, a day by default", () => {
+  const saved = process.env.SESSION_IDLE_MINUTES;
+  try {
+    delete process.env.SESSION_IDLE_MINUTES;
+    assert.equal(idleExpiryMinutes(), 24 * 60);
+    process.env.SESSION_IDLE_MINUTES = "90.5";
+    assert.equal(idleExpiryMinutes(), 90);
+    process.env.SESSION_IDLE_MINUTES = "-1";
+    assert.equal(idleExpiryMinutes(), 24 * 60);
+  } finally {
+    if (saved === undefined) delete process.env.SESSION_IDLE_MINUTES;
+    else process.env.SESSION_IDLE_MINUTES = saved;
+  }
+});
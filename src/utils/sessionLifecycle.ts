@@ -0,0 +1,36 @@
+// utils/sessionLifecycle.ts
+// Where a draft session is in its life:
+//   lobby     → created, nothing drafted yet
+//   drafting  → picks/bans under way
+//   scoring   → draft finalized, waiting for the confirmed result
+//   complete  → result final
+//   abandoned → went idle mid-draft and was closed by the reaper
+//   expired   → went idle in the lobby and was closed by the reaper
+//
+// Only the two reaper outcomes are stored (the `lifecycle` column); the rest
+// follow from is_complete / result / state, so existing writes stay as they are.
+// Series, bracket and Swiss games are never reaped: a stalled one would block
+// its event, so it stays open until its organizer settles it.
+
+export type Lifecycle = "lobby" | "drafting" | "scoring" | "complete" | "abandoned" | "expired";
+
+const DEFAULT_IDLE_MINUTES = 24 * 60;
+export const REAP_INTERVAL_MS = 10 * 60_000;
+
+export function lifecycleOf(row: {
+  lifecycle?: string | null;
+  is_complete?: boolean | null;
+  result?: any;
+  state?: any;
+}): Lifecycle {
+  if (row.lifecycle === "abandoned" || row.lifecycle === "expired") return row.lifecycle;
+  if (row.result) return "complete";
+  if (row.is_complete === true) return "scoring";
+  return Number(row.state?.currentTurn ?? 0) > 0 ? "drafting" : "lobby";
+}
+
+/** Idle time before an unfinished session is reaped (SESSION_IDLE_MINUTES, default one day) */
+export function idleExpiryMinutes(): number {
+  const n = Number(process.env.SESSION_IDLE_MINUTES);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : DEFAULT_IDLE_MINUTES;
+}
@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_SPECTATOR_DELAY, parseExpectedVersion, parseSpectatorDelay } from "./sessionParams";
+
+test("expectedVersion is optional but must be a non-negative integer when sent", () => {
+  assert.equal(parseExpectedVersion(undefined), null);
+  assert.equal(parseExpectedVersion(null), null);
+  assert.equal(parseExpectedVersion(0), 0);
+  assert.equal(parseExpectedVersion("7"), 7);
+  for (const bad of [-1, 1.5, "abc", {}]) {
+    assert.ok(Number.isNaN(parseExpectedVersion(bad)), String(bad));
+  }
+});
+
+test("spectator delays are whole seconds clamped to 0..MAX_SPECTATOR_DELAY", () => {
+  assert.equal(parseSpectatorDelay(undefined), undefined);
+  assert.equal(parseSpectatorDelay("soon"), undefined);
+  assert.equal(parseSpectatorDelay("45.9"), 45);
+  assert.equal(parseSpectatorDelay(-10), 0);
+  assert.equal(parseSpectatorDelay(99_999), MAX_SPECTATOR_DELAY);
+});
@@ -0,0 +1,19 @@
+// utils/sessionParams.ts
+// Body parameters shared by the HSR and ZZZ session create/update routes.
+
+export const MAX_SPECTATOR_DELAY = 600;
+
+/** `spectatorDelaySeconds` from a body: whole seconds in 0..600, undefined when absent/invalid */
+export function parseSpectatorDelay(v: any): number | undefined {
+  const n = Number(v);
+  if (v === undefined || v === null || !Number.isFinite(n)) return undefined;
+  return Math.max(0, Math.min(MAX_SPECTATOR_DELAY, Math.floor(n)));
+}
+
+/** Optional `expectedVersion` from the body: null when absent, NaN when invalid */
+export function parseExpectedVersion(v: any): number | null {
+  if (v === undefined || v === null) return null;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0) return NaN;
+  return n;
+}
@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MAX_PARTICIPANTS_PER_SIDE,
+  SideAuthRow,
+  buildParticipants,
+  parseBindUserId,
+  publicParticipants,
+  resolvePlayerSide,
+  sanitizeParticipantRules,
+} from "./sideAuth";
+
+const BLUE_ID = "111111111111111111";
+const RED_ID = "222222222222222222";
+const row = (extra: Partial<SideAuthRow> = {}): SideAuthRow => ({
+  blue_token: "blue-pt",
+  red_token: "red-pt",
+  ...extra,
+});
+
+test("an unbound side token works for anyone", () => {
+  assert.deepEqual(resolvePlayerSide(row(), "red-pt"), { side: "R", participant: null, captain: true });
+  assert.deepEqual(resolvePlayerSide(row(), "nope"), { side: null, error: "Invalid player token" });
+  assert.deepEqual(resolvePlayerSide(row(), undefined), { side: null, error: "Missing pt" });
+});
+
+test("a bound side token only works for its Discord account", () => {
+  const bound = row({ blue_user_id: BLUE_ID });
+  assert.equal(resolvePlayerSide(bound, "blue-pt", BLUE_ID).side, "B");
+  assert.equal(resolvePlayerSide(bound, "blue-pt", RED_ID).side, null);
+  assert.equal(resolvePlayerSide(bound, "blue-pt").side, null);
+});
+
+test("a bound account can act without the token", () => {
+  const bound = row({ blue_user_id: BLUE_ID, red_user_id: RED_ID });
+  assert.equal(resolvePlayerSide(bound, null, RED_ID).side, "R");
+  assert.equal(resolvePlayerSide(bound, null, "333333333333333333").side, null);
+
+  const both = row({ blue_user_id: BLUE_ID, red_user_id: BLUE_ID });
+  assert.deepEqual(resolvePlayerSide(both, null, BLUE_ID), {
+    side: null,
+    error: "Bound to both sides; send pt to pick one",
+  });
+  assert.equal(resolvePlayerSide(both, "red-pt", BLUE_ID).side, "R");
+});
+
+test("bind ids are Discord snowflakes; empty clears", () => {
+  assert.equal(parseBindUserId(` ${BLUE_ID} `), BLUE_ID);
+  assert.equal(parseBindUserId(""), null);
+  assert.equal(parseBindUserId(null), null);
+  assert.equal(parseBindUserId("someone"), undefined);
+  assert.equal(parseBindUserId("1234"), undefined);
+});
+
+test("participants get server-made ids and tokens and act for their side", () => {
+  const parts = buildParticipants([
+    { side: "B", name: " Ana ", captain: true },
+    { side: "B", name: "Bo", userId: RED_ID },
+  ])!;
+  assert.equal(parts[0].name, "Ana");
+  assert.ok(parts[0].token.length >= 20 && parts[0].id);
+  assert.notEqual(parts[0].token, parts[1].token);
+
+  const r = row({ participants: parts });
+  assert.deepEqual(resolvePlayerSide(r, parts[0].token), { side: "B", participant: parts[0], captain: true });
+  // a bound participant token is tied to its account, which can also act token-less
+  assert.equal(resolvePlayerSide(r, parts[1].token).side, null);
+  const byAccount = resolvePlayerSide(r, null, RED_ID);
+  assert.ok(byAccount.side === "B" && !byAccount.captain);
+});
+
+test("invalid participant lists and full sides are refused", () => {
+  assert.deepEqual(buildParticipants(undefined), []);
+  assert.equal(buildParticipants({}), null);
+  assert.equal(buildParticipants([{ side: "X", name: "a" }]), null);
+  assert.equal(buildParticipants([{ side: "B", name: "" }]), null);
+  assert.equal(buildParticipants([{ side: "B", name: "a", userId: "bob" }]), null);
+
+  const full = buildParticipants(
+    Array.from({ length: MAX_PARTICIPANTS_PER_SIDE }, (_, i) => ({ side: "R", name: `p${i}` }))
+  )!;
+  assert.equal(buildParticipants([{ side: "R", name: "extra" }], full), null);
+  assert.equal(buildParticipants([{ side: "B", name: "extra" }], full)?.length, 1);
+});
+
+test("rules keep only restrictable ops and spectators never see tokens", () => {
+  assert.deepEqual(sanitizeParticipantRules({ captainOnly: ["pick", "pick", "chat", "reportScore"] }), {
+    captainOnly: ["pick", "reportScore"],
+  });
+  const [p] = buildParticipants([{ side: "R", name: "Cy", userId: BLUE_ID }])!;
+  assert.deepEqual(publicParticipants([p]), [{ id: p.id, side: "R", name: "Cy", captain: false, bound: true }]);
+});
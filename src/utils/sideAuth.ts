@@ -0,0 +1,148 @@
+// utils/sideAuth.ts
+// Who may act for a side: the side's `pt` token, the Discord user the side
+// is bound to, or one of the side's named participants (own token, optional
+// own binding). A bound token only works for its account, so a leaked link
+// is useless to anyone else.
+//
+// The side token / side binding is the captain. Participants are teammates
+// unless flagged as captain; rules can reserve ops for captains.
+import { genKey } from "./genKey";
+
+export type Side = "B" | "R";
+
+export type Participant = {
+  id: string;
+  side: Side;
+  name: string;
+  token: string;
+  userId: string | null;
+  captain: boolean;
+};
+
+export type ParticipantRules = { captainOnly: string[] };
+
+export type SideAuthRow = {
+  blue_token: string | null;
+  red_token: string | null;
+  blue_user_id?: string | null;
+  red_user_id?: string | null;
+  participants?: Participant[] | null;
+};
+
+export type SideAuth =
+  | { side: Side; participant: Participant | null; captain: boolean }
+  | { side: null; error: string };
+
+export const MAX_PARTICIPANTS_PER_SIDE = 4;
+const CAPTAIN_ONLY_OPS: ReadonlySet<string> = new Set([
+  "pick",
+  "ban",
+  "setLock",
+  "undoLast",
+  "reportScore",
+  "confirmScore",
+]);
+
+const boundUser = (row: SideAuthRow, side: Side) =>
+  (side === "B" ? row.blue_user_id : row.red_user_id) || null;
+
+export function resolvePlayerSide(
+  row: SideAuthRow,
+  pt?: string | null,
+  userId?: string | null
+): SideAuth {
+  const bySide: Side | null =
+    pt && row.blue_token === pt ? "B" : pt && row.red_token === pt ? "R" : null;
+
+  if (bySide) {
+    const bound = boundUser(row, bySide);
+    if (bound && bound !== userId) {
+      return { side: null, error: "This side is bound to another Discord account" };
+    }
+    return { side: bySide, participant: null, captain: true };
+  }
+
+  const parts = row.participants || [];
+  const byToken = pt ? parts.find((p) => p.token === pt) : undefined;
+  if (byToken) {
+    if (byToken.userId && byToken.userId !== userId) {
+      return { side: null, error: "This participant is bound to another Discord account" };
+    }
+    return { side: byToken.side, participant: byToken, captain: byToken.captain };
+  }
+
+  if (userId) {
+    const blue = boundUser(row, "B") === userId;
+    const red = boundUser(row, "R") === userId;
+    if (blue && red) return { side: null, error: "Bound to both sides; send pt to pick one" };
+    if (blue) return { side: "B", participant: null, captain: true };
+    if (red) return { side: "R", participant: null, captain: true };
+
+    const mine = parts.filter((p) => p.userId === userId);
+    if (mine.length > 1) return { side: null, error: "Bound to several participants; send pt" };
+    if (mine.length === 1) {
+      return { side: mine[0].side, participant: mine[0], captain: mine[0].captain };
+    }
+  }
+
+  return { side: null, error: pt ? "Invalid player token" : "Missing pt" };
+}
+
+/** Discord id to bind a side to: null when absent or cleared, undefined when invalid */
+export function parseBindUserId(v: any): string | null | undefined {
+  if (v === undefined || v === null || v === "") return null;
+  const s = String(v).trim();
+  return /^\d{5,25}$/.test(s) ? s : undefined;
+}
+
+/**
+ * New participants from a create/add body: [{ side, name, userId?, captain? }].
+ * Ids and tokens are server-generated. null when the input is invalid.
+ */
+export function buildParticipants(raw: any, existing: Participant[] = []): Participant[] | null {
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) return null;
+
+  const out: Participant[] = [];
+  for (const p of raw) {
+    const side = p?.side;
+    const name = typeof p?.name === "string" ? p.name.trim() : "";
+    const userId = parseBindUserId(p?.userId);
+    if ((side !== "B" && side !== "R") || !name || name.length > 40 || userId === undefined) {
+      return null;
+    }
+    out.push({
+      id: genKey(8),
+      side,
+      name,
+      token: genKey(20),
+      userId,
+      captain: p?.captain === true,
+    });
+  }
+
+  const all = [...existing, ...out];
+  for (const side of ["B", "R"] as const) {
+    if (all.filter((p) => p.side === side).length > MAX_PARTICIPANTS_PER_SIDE) return null;
+  }
+  return out;
+}
+
+/** `{ captainOnly: [...] }` keeping only ops that can be restricted */
+export function sanitizeParticipantRules(raw: any): ParticipantRules {
+  const ops = Array.isArray(raw?.captainOnly) ? raw.captainOnly : [];
+  return {
+    captainOnly: [...new Set<string>(ops.map(String))].filter((op) => CAPTAIN_ONLY_OPS.has(op)),
+  };
+}
+
+/** Participants as spectators see them: no tokens */
+export function publicParticipants(parts: Participant[] | null | undefined) {
+  return (parts || []).map(({ id, side, name, userId, captain }) => ({
+    id,
+    side,
+    name,
+    captain,
+    bound: !!userId,
+  }));
+}
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { REPLAY_SIZE, currentEventId, eventsSince, frameEvent, newReplayRing } from "./sseReplay";
+
+test("events are numbered per ring and the delta form shares the id", () => {
+  const ring = newReplayRing();
+  const a = frameEvent(ring, "update", { v: 1 }, { event: "patch", payload: [] });
+  assert.equal(a.line, `id: ${ring.stream}.1\nevent: update\ndata: {"v":1}\n\n`);
+  assert.equal(a.patchLine, `id: ${ring.stream}.1\nevent: patch\ndata: []\n\n`);
+  frameEvent(ring, "chat", { body: "hi" });
+  assert.equal(currentEventId(ring), `${ring.stream}.2`);
+  // no ring → plain frames, nothing remembered
+  assert.equal(frameEvent(undefined, "ping", 1).line, "event: ping\ndata: 1\n\n");
+});
+
+test("a reconnect gets exactly what it missed", () => {
+  const ring = newReplayRing();
+  for (let i = 1; i <= 5; i++) frameEvent(ring, "update", { i });
+  assert.deepEqual(
+    eventsSince(ring, `${ring.stream}.3`)?.map((e) => e.seq),
+    [4, 5]
+  );
+  assert.deepEqual(eventsSince(ring, ` ${ring.stream}.5 `), []);
+});
+
+test("unknown, foreign, future or evicted ids fall back to a snapshot", () => {
+  const ring = newReplayRing();
+  for (let i = 0; i < REPLAY_SIZE + 10; i++) frameEvent(ring, "update", { i });
+  assert.equal(ring.events.length, REPLAY_SIZE);
+  assert.equal(eventsSince(ring, "garbage"), null);
+  assert.equal(eventsSince(ring, `other.${ring.seq}`), null);
+  assert.equal(eventsSince(ring, `${ring.stream}.${ring.seq + 1}`), null);
+  assert.equal(eventsSince(ring, `${ring.stream}.5`), null);
+  // the event just before the oldest kept one can still be resumed
+  assert.equal(eventsSince(ring, `${ring.stream}.10`)?.length, REPLAY_SIZE);
+  assert.equal(eventsSince(undefined, `${ring.stream}.10`), null);
+});
@@ -0,0 +1,72 @@
+// utils/sseReplay.ts
+// Numbered SSE events per session plus a short ring buffer of what was sent,
+// so a viewer who reconnects with `Last-Event-ID` gets the events they missed
+// instead of waiting for the next full update.
+//
+// Ids are `<stream>.<seq>`. The stream part is random per buffer, so an id
+// from a buffer that was dropped (or from another instance) never matches
+// and the viewer falls back to a fresh snapshot.
+import { genKey } from "./genKey";
+
+export const REPLAY_SIZE = 200;
+
+/** `patchLine` is the same event for delta viewers, when it has a delta form */
+export type ReplayEntry = { seq: number; at: number; line: string; patchLine?: string };
+
+export type ReplayRing = {
+  stream: string;
+  seq: number;
+  events: ReplayEntry[];
+  dropTimer: NodeJS.Timeout | null;
+};
+
+export function newReplayRing(): ReplayRing {
+  return { stream: genKey(6), seq: 0, events: [], dropTimer: null };
+}
+
+/** Id of the newest event, for tagging a snapshot written outside the ring */
+export function currentEventId(ring: ReplayRing): string {
+  return `${ring.stream}.${ring.seq}`;
+}
+
+const sseBody = (event: string, payload: any) =>
+  `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`;
+
+/**
+ * SSE frames for an event (plus its delta form `alt`, sharing the same id);
+ * numbered and remembered when the session has a ring.
+ */
+export function frameEvent(
+  ring: ReplayRing | undefined,
+  event: string,
+  payload: any,
+  alt?: { event: string; payload: any }
+): { line: string; patchLine?: string } {
+  const body = sseBody(event, payload);
+  const altBody = alt ? sseBody(alt.event, alt.payload) : undefined;
+  if (!ring) return { line: body, patchLine: altBody };
+
+  ring.seq++;
+  const id = `id: ${currentEventId(ring)}\n`;
+  const entry: ReplayEntry = { seq: ring.seq, at: Date.now(), line: id + body };
+  if (altBody) entry.patchLine = id + altBody;
+  ring.events.push(entry);
+  if (ring.events.length > REPLAY_SIZE) ring.events.shift();
+  return { line: entry.line, patchLine: entry.patchLine };
+}
+
+/**
+ * Events after `lastEventId`, oldest first ([] when the viewer is up to date).
+ * null when the id is unknown or older than the buffer: send a snapshot instead.
+ */
+export function eventsSince(ring: ReplayRing | undefined, lastEventId: string): ReplayEntry[] | null {
+  if (!ring) return null;
+  const m = /^([^.]+)\.(\d+)$/.exec(lastEventId.trim());
+  if (!m || m[1] !== ring.stream) return null;
+
+  const seq = Number(m[2]);
+  if (seq > ring.seq) return null;
+  const oldest = ring.events.length ? ring.events[0].seq : ring.seq + 1;
+  if (seq < oldest - 1) return null;
+  return ring.events.filter((e) => e.seq > seq);
+}
@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SwissResult, defaultSwissRounds, pairSwissRound, swissStandings } from "./swiss";
+
+const seeds = (n: number) => Array.from({ length: n }, (_, i) => `p${i + 1}`);
+
+/** Pair and play `rounds` rounds, the better seed winning every table */
+function simulate(n: number, rounds: number) {
+  const ids = seeds(n);
+  const results: SwissResult[] = [];
+  for (let round = 1; round <= rounds; round++) {
+    const pairs = pairSwissRound(swissStandings(ids, results));
+    for (const { p1, p2 } of pairs) {
+      const winner = p2 == null ? p1 : ids.indexOf(p1) < ids.indexOf(p2) ? p1 : p2;
+      results.push({ round, p1, p2, winner, done: true });
+    }
+  }
+  return { ids, results };
+}
+
+test("default rounds leave one unbeaten player", () => {
+  assert.equal(defaultSwissRounds(1), 1);
+  assert.equal(defaultSwissRounds(8), 3);
+  assert.equal(defaultSwissRounds(9), 4);
+});
+
+test("standings score wins, draws and byes and break ties on Buchholz", () => {
+  const results: SwissResult[] = [
+    { round: 1, p1: "p1", p2: "p2", winner: "p1", done: true },
+    { round: 1, p1: "p3", p2: "p4", winner: null, done: true },
+    { round: 1, p1: "p5", p2: null, winner: "p5", done: true },
+  ];
+  const s = swissStandings(seeds(5), results);
+  const by = Object.fromEntries(s.map((r) => [r.discordId, r]));
+  assert.equal(by.p1.points, 1);
+  assert.equal(by.p3.points, 0.5);
+  assert.equal(by.p5.points, 1);
+  assert.equal(by.p5.byes, 1);
+  assert.equal(by.p5.buchholz, 0); // a bye adds nothing
+  assert.equal(by.p2.buchholz, 1);
+  // p1 and p5 tie on points; p1's opponent has none either, so seed decides
+  assert.deepEqual(s.slice(0, 2).map((r) => r.discordId), ["p1", "p5"]);
+});
+
+test("unfinished tables don't count", () => {
+  const s = swissStandings(seeds(2), [{ round: 1, p1: "p1", p2: "p2", winner: null, done: false }]);
+  assert.equal(s[0].points + s[1].points, 0);
+  assert.deepEqual(s[0].opponents, ["p2"]);
+});
+
+test("every player is paired once per round", () => {
+  for (const n of [2, 7, 8, 13]) {
+    const pairs = pairSwissRound(swissStandings(seeds(n), []));
+    const seen = pairs.flatMap((p) => [p.p1, p.p2]).filter((x) => x != null);
+    assert.equal(new Set(seen).size, n);
+    assert.equal(pairs.filter((p) => p.p2 == null).length, n % 2);
+  }
+});
+
+test("no rematches and no second bye over a full event", () => {
+  const { ids, results } = simulate(9, defaultSwissRounds(9));
+  const met = new Set<string>();
+  for (const r of results) {
+    if (r.p2 == null) continue;
+    const k = [r.p1, r.p2].sort().join("-");
+    assert.ok(!met.has(k), `rematch ${k}`);
+    met.add(k);
+  }
+  const byes = results.filter((r) => r.p2 == null).map((r) => r.p1);
+  assert.equal(new Set(byes).size, byes.length);
+  assert.equal(swissStandings(ids, results)[0].discordId, "p1");
+});
+
+test("the bye goes to the lowest-ranked player without one", () => {
+  const pairs = pairSwissRound(swissStandings(seeds(5), []));
+  assert.deepEqual(pairs.find((p) => p.p2 == null), { p1: "p5", p2: null });
+});
+
+test("a field that can't avoid rematches still gets paired, quickly", () => {
+  // four players, three rounds already played: everyone has met everyone
+  const ids = seeds(4);
+  const results: SwissResult[] = [];
+  const rounds = [
+    [["p1", "p2"], ["p3", "p4"]],
+    [["p1", "p3"], ["p2", "p4"]],
+    [["p1", "p4"], ["p2", "p3"]],
+  ];
+  rounds.forEach((tables, i) =>
+    tables.forEach(([p1, p2]) => results.push({ round: i + 1, p1, p2, winner: p1, done: true }))
+  );
+  assert.equal(pairSwissRound(swissStandings(ids, results)).length, 2);
+
+  // a large field where nearly everyone has met: the search gives up in bounded time
+  const big = seeds(129);
+  const standings = swissStandings(big, []).map((s, i) => ({
+    ...s,
+    opponents: big.filter((_, j) => j !== i && Math.abs(i - j) < 120),
+  }));
+  const started = Date.now();
+  const pairs = pairSwissRound(standings);
+  assert.ok(Date.now() - started < 2_000);
+  assert.equal(pairs.length, 65);
+});
@@ -0,0 +1,150 @@
+// utils/swiss.ts
+// Swiss-system pairing and standings (pure; persistence lives in the router).
+//
+// Scoring: win 1, draw 0.5, loss 0, bye 1. Buchholz is the sum of the
+// opponents' points; a bye adds nothing to it.
+
+export type SwissResult = {
+  round: number;
+  p1: string;
+  p2: string | null; // null = bye
+  winner: string | null; // null = draw (or the bye when p2 is null)
+  done: boolean;
+};
+
+export type SwissStanding = {
+  discordId: string;
+  seed: number;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  buchholz: number;
+  opponents: string[];
+};
+
+export type SwissPairing = { p1: string; p2: string | null };
+
+/** Default round count: enough to leave a single unbeaten player */
+export function defaultSwissRounds(entrants: number): number {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(entrants, 2))));
+}
+
+/** Standings sorted by points, Buchholz, then seed */
+export function swissStandings(seeds: string[], results: SwissResult[]): SwissStanding[] {
+  const rows = new Map<string, SwissStanding>();
+  seeds.forEach((id, i) =>
+    rows.set(id, {
+      discordId: id,
+      seed: i + 1,
+      points: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+      byes: 0,
+      buchholz: 0,
+      opponents: [],
+    })
+  );
+
+  for (const r of results) {
+    const a = rows.get(r.p1);
+    if (!a) continue;
+    if (r.p2 == null) {
+      if (!r.done) continue;
+      a.byes++;
+      a.points += 1;
+      continue;
+    }
+    const b = rows.get(r.p2);
+    if (!b) continue;
+    a.opponents.push(r.p2);
+    b.opponents.push(r.p1);
+    if (!r.done) continue;
+    if (r.winner == null) {
+      a.draws++;
+      b.draws++;
+      a.points += 0.5;
+      b.points += 0.5;
+    } else {
+      const [w, l] = r.winner === r.p1 ? [a, b] : [b, a];
+      w.wins++;
+      w.points += 1;
+      l.losses++;
+    }
+  }
+
+  for (const s of rows.values()) {
+    s.buchholz = s.opponents.reduce((acc, id) => acc + (rows.get(id)?.points ?? 0), 0);
+  }
+
+  return [...rows.values()].sort(
+    (x, y) => y.points - x.points || y.buchholz - x.buchholz || x.seed - y.seed
+  );
+}
+
+/** Upper bound on backtracking steps for a whole round (all bye candidates together) */
+const PAIRING_BUDGET = 20_000;
+
+/** Nearest-in-standings pairing that avoids rematches where it can; never fails */
+function greedyPairs(field: string[], met: Map<string, Set<string>>): [string, string][] {
+  const left = [...field];
+  const out: [string, string][] = [];
+  while (left.length >= 2) {
+    const head = left.shift()!;
+    const j = left.findIndex((id) => !met.get(head)!.has(id));
+    out.push([head, left.splice(Math.max(j, 0), 1)[0]]);
+  }
+  return out;
+}
+
+/**
+ * Pair the next round. Players are taken in standings order and matched with
+ * the nearest player on an equal (or the closest lower) record they have not
+ * met yet. With an odd field the lowest-ranked player without a bye sits out.
+ * The rematch-free search shares one step budget across bye candidates, so a
+ * round costs the same bounded work at any field size; when it fails (or the
+ * budget runs out) a greedy pass pairs everyone, rematches as a last resort.
+ */
+export function pairSwissRound(standings: SwissStanding[]): SwissPairing[] {
+  const order = standings.map((s) => s.discordId);
+  const met = new Map(standings.map((s) => [s.discordId, new Set(s.opponents)]));
+
+  const byeCandidates =
+    order.length % 2 === 0
+      ? [null]
+      : [
+          ...[...standings].reverse().filter((s) => s.byes === 0),
+          ...[...standings].reverse().filter((s) => s.byes > 0),
+        ].map((s) => s.discordId);
+
+  const withBye = (pairs: [string, string][], bye: string | null) => {
+    const out: SwissPairing[] = pairs.map(([p1, p2]) => ({ p1, p2 }));
+    if (bye) out.push({ p1: bye, p2: null });
+    return out;
+  };
+
+  let steps = 0;
+  const solve = (left: string[]): [string, string][] | null => {
+    if (!left.length) return [];
+    if (++steps > PAIRING_BUDGET) return null;
+    const [head, ...rest] = left;
+    for (let i = 0; i < rest.length; i++) {
+      if (met.get(head)!.has(rest[i])) continue;
+      const tail = solve([...rest.slice(0, i), ...rest.slice(i + 1)]);
+      if (tail) return [[head, rest[i]], ...tail];
+      if (steps > PAIRING_BUDGET) return null;
+    }
+    return null;
+  };
+
+  for (const bye of byeCandidates) {
+    if (steps > PAIRING_BUDGET) break;
+    const pairs = solve(order.filter((id) => id !== bye));
+    if (pairs) return withBye(pairs, bye);
+  }
+
+  const bye = byeCandidates[0];
+  return withBye(greedyPairs(order.filter((id) => id !== bye), met), bye);
+}
@@ -0,0 +1,116 @@
+// utils/teamCost.ts
+// Server-side team cost + penalty, so every client shows the same numbers.
+//
+// A pick costs charMs[code][eidolon] + equip[equipId][superimpose - 1].
+// Sources, in order:
+//   1. featured customCost (flat override for that character / cone / engine)
+//   2. the session's cost preset (hsr_cost_presets / zzz_cost_presets)
+//   3. the default tables: Cerydra for HSR, Vivian (zzz_characters/zzz_wengine) for ZZZ
+import NodeCache from "node-cache";
+import { pool } from "../db";
+import { isBanTok } from "./draftTimer";
+
+export type CostTables = {
+  charMs: Record<string, number[]>; // code -> [E0..E6] / [M0..M6]
+  equip: Record<string, number[]>; // lightcone / W-Engine id -> [S1..S5]
+};
+
+export type SideCost = { total: number; over: number; penalty: number };
+
+const cache = new NodeCache({ stdTTL: 300 });
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function toCostMap(rows: any[], idCol: string): Record<string, number[]> {
+  const out: Record<string, number[]> = {};
+  for (const r of rows) {
+    const costs = typeof r.costs === "string" ? JSON.parse(r.costs) : r.costs;
+    if (Array.isArray(costs)) out[String(r[idCol])] = costs.map((n: any) => Number(n) || 0);
+  }
+  return out;
+}
+
+/** Default (non-preset) cost tables for a game, cached for a few minutes */
+export async function getDefaultCostTables(game: "hsr" | "zzz"): Promise<CostTables> {
+  const cacheKey = `default_costs_${game}`;
+  const cached = cache.get<CostTables>(cacheKey);
+  if (cached) return cached;
+
+  const [chars, equip] =
+    game === "hsr"
+      ? await Promise.all([
+          pool.query(`SELECT id, costs FROM cerydra_costs`),
+          pool.query(`SELECT id, costs FROM cerydra_cone_costs`),
+        ])
+      : await Promise.all([
+          pool.query(`SELECT code AS id, costs FROM zzz_characters`),
+          pool.query(`SELECT id, costs FROM zzz_wengine`),
+        ]);
+
+  const tables: CostTables = {
+    charMs: toCostMap(chars.rows, "id"),
+    equip: toCostMap(equip.rows, "id"),
+  };
+  cache.set(cacheKey, tables);
+  return tables;
+}
+
+/**
+ * Total cost per side, how far it is over `costLimit`, and the resulting
+ * penalty (`over * penaltyPerPoint`, rounded to whole score units). Ban slots
+ * never count.
+ */
+export function computeTeamCosts(
+  state: any,
+  tables: CostTables,
+  opts: {
+    equipKey: "lightconeId" | "wengineId";
+    featured: { kind: string; code?: string; id?: string; customCost?: number | null }[];
+    costLimit: number | null;
+    penaltyPerPoint: number;
+  }
+): { B: SideCost; R: SideCost } {
+  const charOverride = new Map<string, number>();
+  const equipOverride = new Map<string, number>();
+  for (const f of opts.featured || []) {
+    if (typeof f.customCost !== "number") continue;
+    if (f.kind === "character" && f.code) charOverride.set(f.code, f.customCost);
+    else if (f.id != null) equipOverride.set(String(f.id), f.customCost);
+  }
+
+  const totals = { B: 0, R: 0 };
+  const seq: string[] = state?.draftSequence || [];
+  (state?.picks || []).forEach((p: any, i: number) => {
+    const tok = seq[i] || "";
+    if (!p || isBanTok(tok)) return;
+    const side = tok.startsWith("B") ? "B" : tok.startsWith("R") ? "R" : null;
+    if (!side) return;
+
+    const e = Math.max(0, Math.min(6, Number(p.eidolon) || 0));
+    const charCost = charOverride.has(p.characterCode)
+      ? charOverride.get(p.characterCode)!
+      : Number(tables.charMs[p.characterCode]?.[e] ?? 0);
+
+    let equipCost = 0;
+    const equipId = p[opts.equipKey];
+    if (equipId != null && String(equipId) !== "") {
+      const s = Math.max(1, Math.min(5, Number(p.superimpose) || 1));
+      equipCost = equipOverride.has(String(equipId))
+        ? equipOverride.get(String(equipId))!
+        : Number(tables.equip[String(equipId)]?.[s - 1] ?? 0);
+    }
+
+    totals[side] += charCost + equipCost;
+  });
+
+  const side = (total: number): SideCost => {
+    const over =
+      opts.costLimit == null ? 0 : Math.max(0, round2(total - opts.costLimit));
+    return {
+      total: round2(total),
+      over,
+      penalty: Math.round(over * opts.penaltyPerPoint),
+    };
+  };
+  return { B: side(totals.B), R: side(totals.R) };
+}